@@ -0,0 +1,225 @@
+/**
+ * Request coalescing for small GraphQL lookups.
+ *
+ * Lookups requested in the same tick (user IDs, issue node IDs, label IDs)
+ * are merged into a single aliased GraphQL query instead of one round-trip
+ * each. Callers get the benefit by starting lookups together:
+ *
+ * @example
+ * ```typescript
+ * // One request instead of three
+ * const ids = await Promise.all(['alice', 'bob', 'carol'].map(l => api.getUserId(l)));
+ * ```
+ */
+
+import type { RepoInfo } from './types.js';
+
+/**
+ * A single lookup that can be merged into a batched query
+ */
+export interface BatchLookup<T> {
+    /** Identical keys in the same batch share one aliased field */
+    key: string;
+    /** GraphQL variables used by the selection, keyed by local name */
+    variables: Record<string, { type: string; value: unknown }>;
+    /**
+     * Build the aliased selection. `v(name)` returns the batch-unique
+     * variable reference (e.g. `$a0_login`) for a local variable name.
+     */
+    selection: (alias: string, v: (name: string) => string) => string;
+    /** Convert the aliased response field into the lookup's result */
+    extract: (data: unknown) => T;
+}
+
+interface PendingLookup {
+    lookup: BatchLookup<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+}
+
+type Execute = (query: string, variables: Record<string, unknown>) => Promise<Record<string, unknown>>;
+
+/**
+ * Collects lookups made in the same tick and sends them as one aliased query
+ */
+export class GraphQLBatcher {
+    private execute: Execute;
+    private maxBatchSize: number;
+    private pending: PendingLookup[] = [];
+    private scheduled = false;
+
+    constructor(execute: Execute, maxBatchSize: number = 50) {
+        this.execute = execute;
+        this.maxBatchSize = maxBatchSize;
+    }
+
+    /**
+     * Queue a lookup. It is sent with every other lookup queued before the next tick.
+     */
+    load<T>(lookup: BatchLookup<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.pending.push({
+                lookup: lookup as BatchLookup<unknown>,
+                resolve: resolve as (value: unknown) => void,
+                reject,
+            });
+            if (!this.scheduled) {
+                this.scheduled = true;
+                setTimeout(() => this.flush(), 0);
+            }
+        });
+    }
+
+    /**
+     * Send everything queued so far, split into batches of maxBatchSize unique lookups
+     */
+    private flush(): void {
+        const pending = this.pending;
+        this.pending = [];
+        this.scheduled = false;
+
+        // Group duplicate lookups so each unique key is queried once
+        const groups = new Map<string, PendingLookup[]>();
+        for (const entry of pending) {
+            const group = groups.get(entry.lookup.key);
+            if (group) {
+                group.push(entry);
+            } else {
+                groups.set(entry.lookup.key, [entry]);
+            }
+        }
+
+        const unique = Array.from(groups.values());
+        for (let i = 0; i < unique.length; i += this.maxBatchSize) {
+            void this.dispatch(unique.slice(i, i + this.maxBatchSize));
+        }
+    }
+
+    /**
+     * Build and execute one aliased query, then settle each lookup from its alias
+     */
+    private async dispatch(groups: PendingLookup[][]): Promise<void> {
+        const declarations: string[] = [];
+        const selections: string[] = [];
+        const variables: Record<string, unknown> = {};
+
+        groups.forEach((group, index) => {
+            const alias = `a${index}`;
+            const { lookup } = group[0];
+            for (const [name, { type, value }] of Object.entries(lookup.variables)) {
+                declarations.push(`$${alias}_${name}: ${type}`);
+                variables[`${alias}_${name}`] = value;
+            }
+            selections.push(lookup.selection(alias, name => `$${alias}_${name}`));
+        });
+
+        const query = `query(${declarations.join(', ')}) {\n${selections.join('\n')}\n}`;
+
+        let data: Record<string, unknown>;
+        let failedAliases = new Map<string, unknown>();
+        try {
+            data = await this.execute(query, variables);
+        } catch (error) {
+            // Partial success: GraphQL errors are reported per alias alongside the data
+            const partial = error as {
+                data?: Record<string, unknown>;
+                errors?: Array<{ type?: string; path?: Array<string | number> }>;
+            };
+            if (!partial || typeof partial !== 'object' || !partial.data || !partial.errors) {
+                for (const group of groups) {
+                    for (const entry of group) entry.reject(error);
+                }
+                return;
+            }
+
+            data = partial.data;
+            failedAliases = new Map(
+                partial.errors
+                    // A missing node is a null result, not a failure
+                    .filter(e => e.type !== 'NOT_FOUND' && typeof e.path?.[0] === 'string')
+                    .map(e => [e.path![0] as string, error])
+            );
+        }
+
+        groups.forEach((group, index) => {
+            const alias = `a${index}`;
+            for (const entry of group) {
+                if (failedAliases.has(alias)) {
+                    entry.reject(failedAliases.get(alias));
+                    continue;
+                }
+                try {
+                    entry.resolve(entry.lookup.extract(data[alias] ?? null));
+                } catch (error) {
+                    entry.reject(error);
+                }
+            }
+        });
+    }
+}
+
+// =============================================================================
+// Lookups
+// =============================================================================
+
+/**
+ * Look up a user's node ID by login
+ */
+export function userIdLookup(login: string): BatchLookup<string | null> {
+    return {
+        key: `user:${login.toLowerCase()}`,
+        variables: { login: { type: 'String!', value: login } },
+        selection: (alias, v) => `${alias}: user(login: ${v('login')}) { id }`,
+        extract: data => (data as { id: string } | null)?.id ?? null,
+    };
+}
+
+/**
+ * Repository field an issue number is resolved through. Mutations that only
+ * accept one kind should look it up by that kind, so a number of the other
+ * kind resolves to null instead of failing inside the mutation.
+ */
+export type IssueLookupKind = 'issue' | 'pullRequest' | 'issueOrPullRequest';
+
+/**
+ * Look up an issue or pull request's node ID and body by number
+ */
+export function issueLookup(
+    repo: RepoInfo,
+    number: number,
+    kind: IssueLookupKind = 'issueOrPullRequest'
+): BatchLookup<{ id: string; body: string } | null> {
+    return {
+        key: `${kind}:${repo.owner}/${repo.name}#${number}`,
+        variables: {
+            owner: { type: 'String!', value: repo.owner },
+            name: { type: 'String!', value: repo.name },
+            number: { type: 'Int!', value: number },
+        },
+        selection: (alias, v) => `${alias}: repository(owner: ${v('owner')}, name: ${v('name')}) {
+            ${kind}(number: ${v('number')}) {
+                ${kind === 'issueOrPullRequest' ? '... on Issue { id body } ... on PullRequest { id body }' : 'id body'}
+            }
+        }`,
+        extract: data =>
+            (data as Record<IssueLookupKind, { id: string; body: string } | null> | null)?.[kind] ?? null,
+    };
+}
+
+/**
+ * Look up a label's node ID by name
+ */
+export function labelIdLookup(repo: RepoInfo, labelName: string): BatchLookup<string | null> {
+    return {
+        key: `label:${repo.owner}/${repo.name}:${labelName.toLowerCase()}`,
+        variables: {
+            owner: { type: 'String!', value: repo.owner },
+            name: { type: 'String!', value: repo.name },
+            labelName: { type: 'String!', value: labelName },
+        },
+        selection: (alias, v) => `${alias}: repository(owner: ${v('owner')}, name: ${v('name')}) {
+            label(name: ${v('labelName')}) { id }
+        }`,
+        extract: data => (data as { label: { id: string } | null } | null)?.label?.id ?? null,
+    };
+}
@@ -63,10 +63,10 @@ export class BranchLinker {
      * Stores the link as a hidden comment in the issue body.
      */
     async link(repo: RepoInfo, issueNumber: number, branch: string): Promise<boolean> {
-        const details = await this.api.getIssueDetails(repo, issueNumber);
-        if (!details) return false;
+        const body = await this.api.getIssueBody(repo, issueNumber);
+        if (body === null) return false;
 
-        const newBody = setBranchLinkInBody(details.body, branch);
+        const newBody = setBranchLinkInBody(body, branch);
         return this.api.updateIssueBody(repo, issueNumber, newBody);
     }
 
@@ -74,13 +74,13 @@ export class BranchLinker {
      * Remove the branch link from an issue.
      */
     async unlink(repo: RepoInfo, issueNumber: number): Promise<boolean> {
-        const details = await this.api.getIssueDetails(repo, issueNumber);
-        if (!details) return false;
+        const body = await this.api.getIssueBody(repo, issueNumber);
+        if (body === null) return false;
 
-        const currentBranch = parseBranchLink(details.body);
+        const currentBranch = parseBranchLink(body);
         if (!currentBranch) return false; // No link to remove
 
-        const newBody = removeBranchLinkFromBody(details.body);
+        const newBody = removeBranchLinkFromBody(body);
         return this.api.updateIssueBody(repo, issueNumber, newBody);
     }
 
@@ -88,9 +88,8 @@ export class BranchLinker {
      * Get the branch linked to an issue.
      */
     async getBranchForIssue(repo: RepoInfo, issueNumber: number): Promise<string | null> {
-        const details = await this.api.getIssueDetails(repo, issueNumber);
-        if (!details) return null;
-        return parseBranchLink(details.body);
+        const body = await this.api.getIssueBody(repo, issueNumber);
+        return parseBranchLink(body);
     }
 
     /**
@@ -0,0 +1,251 @@
+/**
+ * Bulk project updates.
+ *
+ * Many item updates (field values, status changes, labels, archiving) are
+ * packed into aliased GraphQL mutations, so moving 40 items to "Done" costs a
+ * couple of requests instead of 40. Each operation gets its own result, and
+ * failed operations can be passed straight back to retry them:
+ *
+ * @example
+ * ```typescript
+ * const report = await api.bulkUpdate(items.map(item => ({
+ *   kind: 'setStatus', projectId: project.id, itemId: item.id, status: 'Done',
+ * })));
+ * if (report.failed.length > 0) {
+ *   await api.bulkUpdate(report.failed.map(r => r.operation));
+ * }
+ * ```
+ */
+
+import type { FieldValueInput, RepoInfo } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single update in a bulk request
+ */
+export type BulkOperation =
+    | { kind: 'setField'; projectId: string; itemId: string; fieldId: string; value: FieldValueInput | null }
+    | { kind: 'setStatus'; projectId: string; itemId: string; status: string }
+    | { kind: 'addLabels'; repo: RepoInfo; issueNumber: number; labels: string[] }
+    | { kind: 'removeLabels'; repo: RepoInfo; issueNumber: number; labels: string[] }
+    | { kind: 'archive'; projectId: string; itemId: string };
+
+/**
+ * Outcome of one operation
+ */
+export interface BulkResult {
+    operation: BulkOperation;
+    success: boolean;
+    /** Why the operation failed */
+    error?: string;
+}
+
+/**
+ * Outcome of a bulk request, with results in the same order as the operations
+ */
+export interface BulkReport {
+    results: BulkResult[];
+    succeeded: number;
+    /** Failed results; pass their operations back to bulkUpdate() to retry */
+    failed: BulkResult[];
+}
+
+/**
+ * Options for bulkUpdate
+ */
+export interface BulkOptions {
+    /** Mutations packed into one request. Defaults to 25 */
+    batchSize?: number;
+    /** Requests in flight at once. Defaults to 2 */
+    concurrency?: number;
+    /** Called after each request with the number of operations finished so far */
+    onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Outcome of GitHubAPI.reorderItems(), with results in the requested order
+ */
+export interface ReorderReport {
+    results: Array<{ itemId: string; success: boolean; error?: string }>;
+    /** Number of items moved */
+    moved: number;
+}
+
+/**
+ * A mutation that can be packed into an aliased bulk request
+ */
+export interface BulkMutation {
+    /** GraphQL variables used by the selection, keyed by local name */
+    variables: Record<string, { type: string; value: unknown }>;
+    /**
+     * Build the aliased mutation field. `v(name)` returns the request-unique
+     * variable reference (e.g. `$m0_itemId`) for a local variable name.
+     */
+    selection: (alias: string, v: (name: string) => string) => string;
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Set a field value on a project item
+ */
+export function updateFieldMutation(
+    projectId: string,
+    itemId: string,
+    fieldId: string,
+    value: FieldValueInput
+): BulkMutation {
+    return {
+        variables: {
+            projectId: { type: 'ID!', value: projectId },
+            itemId: { type: 'ID!', value: itemId },
+            fieldId: { type: 'ID!', value: fieldId },
+            value: { type: 'ProjectV2FieldValue!', value },
+        },
+        selection: (alias, v) => `${alias}: updateProjectV2ItemFieldValue(input: {
+            projectId: ${v('projectId')}, itemId: ${v('itemId')}, fieldId: ${v('fieldId')}, value: ${v('value')}
+        }) { clientMutationId }`,
+    };
+}
+
+/**
+ * Clear a field value on a project item
+ */
+export function clearFieldMutation(projectId: string, itemId: string, fieldId: string): BulkMutation {
+    return {
+        variables: {
+            projectId: { type: 'ID!', value: projectId },
+            itemId: { type: 'ID!', value: itemId },
+            fieldId: { type: 'ID!', value: fieldId },
+        },
+        selection: (alias, v) => `${alias}: clearProjectV2ItemFieldValue(input: {
+            projectId: ${v('projectId')}, itemId: ${v('itemId')}, fieldId: ${v('fieldId')}
+        }) { clientMutationId }`,
+    };
+}
+
+/**
+ * Add or remove labels on an issue or pull request
+ */
+export function labelsMutation(action: 'add' | 'remove', labelableId: string, labelIds: string[]): BulkMutation {
+    const mutation = action === 'add' ? 'addLabelsToLabelable' : 'removeLabelsFromLabelable';
+    return {
+        variables: {
+            labelableId: { type: 'ID!', value: labelableId },
+            labelIds: { type: '[ID!]!', value: labelIds },
+        },
+        selection: (alias, v) => `${alias}: ${mutation}(input: {
+            labelableId: ${v('labelableId')}, labelIds: ${v('labelIds')}
+        }) { clientMutationId }`,
+    };
+}
+
+/**
+ * Archive a project item
+ */
+export function archiveItemMutation(projectId: string, itemId: string): BulkMutation {
+    return {
+        variables: {
+            projectId: { type: 'ID!', value: projectId },
+            itemId: { type: 'ID!', value: itemId },
+        },
+        selection: (alias, v) => `${alias}: archiveProjectV2Item(input: {
+            projectId: ${v('projectId')}, itemId: ${v('itemId')}
+        }) { clientMutationId }`,
+    };
+}
+
+/**
+ * Move a project item directly after another item, or to the top with null `afterId`
+ */
+export function itemPositionMutation(projectId: string, itemId: string, afterId: string | null): BulkMutation {
+    return {
+        variables: {
+            projectId: { type: 'ID!', value: projectId },
+            itemId: { type: 'ID!', value: itemId },
+            afterId: { type: 'ID', value: afterId },
+        },
+        selection: (alias, v) => `${alias}: updateProjectV2ItemPosition(input: {
+            projectId: ${v('projectId')}, itemId: ${v('itemId')}, afterId: ${v('afterId')}
+        }) { clientMutationId }`,
+    };
+}
+
+// =============================================================================
+// Execution
+// =============================================================================
+
+/**
+ * Pack mutations into one aliased mutation document. Mutation `i` uses alias `m{i}`.
+ */
+export function buildBulkMutation(mutations: BulkMutation[]): {
+    query: string;
+    variables: Record<string, unknown>;
+} {
+    const declarations: string[] = [];
+    const selections: string[] = [];
+    const variables: Record<string, unknown> = {};
+
+    mutations.forEach((mutation, index) => {
+        const alias = `m${index}`;
+        for (const [name, { type, value }] of Object.entries(mutation.variables)) {
+            declarations.push(`$${alias}_${name}: ${type}`);
+            variables[`${alias}_${name}`] = value;
+        }
+        selections.push(mutation.selection(alias, name => `$${alias}_${name}`));
+    });
+
+    return {
+        query: `mutation(${declarations.join(', ')}) {\n${selections.join('\n')}\n}`,
+        variables,
+    };
+}
+
+/**
+ * Read per-alias failures from a GraphQL error with partial data.
+ * Returns null when the error isn't a partial failure (the whole request failed),
+ * including when any error has no alias path to pin it to one operation.
+ */
+export function getFailedAliases(error: unknown): Map<string, string> | null {
+    const partial = error as {
+        data?: Record<string, unknown>;
+        errors?: Array<{ message?: string; path?: Array<string | number> }>;
+    };
+    if (!partial || typeof partial !== 'object' || !partial.data || !partial.errors) {
+        return null;
+    }
+
+    const failed = new Map<string, string>();
+    for (const e of partial.errors) {
+        const alias = e.path?.[0];
+        if (typeof alias !== 'string') return null;
+        failed.set(alias, e.message ?? 'Unknown error');
+    }
+    return failed;
+}
+
+/**
+ * Run async tasks with at most `concurrency` in flight, keeping result order
+ */
+export async function runWithConcurrency<T>(
+    tasks: Array<() => Promise<T>>,
+    concurrency: number
+): Promise<T[]> {
+    const results: T[] = new Array(tasks.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+        while (next < tasks.length) {
+            const index = next++;
+            results[index] = await tasks[index]();
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, tasks.length)) }, worker));
+    return results;
+}
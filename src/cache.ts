@@ -0,0 +1,177 @@
+/**
+ * Response cache implementations for GitHubAPI.
+ *
+ * Pass one of these (or any other CacheStore) as `cache.store` in
+ * GitHubAPIOptions to avoid repeating identical round-trips for project
+ * metadata and items.
+ *
+ * @example
+ * ```typescript
+ * const api = new GitHubAPI({
+ *   tokenProvider,
+ *   cache: {
+ *     store: new FileCache(path.join(os.homedir(), '.cache', 'ghp', 'api.json')),
+ *     ttl: { collaborators: 24 * 60 * 60 * 1000 },
+ *   },
+ * });
+ * ```
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { CacheResource, CacheStore } from './types.js';
+
+interface CacheEntry {
+    value: unknown;
+    expiresAt: number;
+}
+
+/**
+ * Default time-to-live per cached resource, in milliseconds
+ */
+export const DEFAULT_CACHE_TTL: Record<CacheResource, number> = {
+    projects: 5 * 60 * 1000,
+    projectFields: 5 * 60 * 1000,
+    projectItems: 0,
+    issueTypes: 60 * 60 * 1000,
+    collaborators: 60 * 60 * 1000,
+};
+
+/**
+ * In-memory cache. Entries live for the lifetime of the process.
+ */
+export class MemoryCache implements CacheStore {
+    private entries = new Map<string, CacheEntry>();
+
+    async get<T>(key: string): Promise<T | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value as T;
+    }
+
+    async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async deleteByPrefix(prefix: string): Promise<void> {
+        for (const key of this.entries.keys()) {
+            if (key.startsWith(prefix)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/**
+ * On-disk JSON cache. Shares entries across CLI invocations.
+ *
+ * The whole file is loaded on first use and rewritten after each change,
+ * so it is intended for small amounts of metadata rather than large item lists.
+ * Writes go through a temp file and are serialized, so concurrent changes
+ * never interleave or leave a partially written file behind.
+ */
+export class FileCache implements CacheStore {
+    private filePath: string;
+    private entries: Promise<Map<string, CacheEntry>> | null = null;
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Load entries from disk, dropping anything that has expired
+     */
+    private load(): Promise<Map<string, CacheEntry>> {
+        // Share one read between concurrent first callers
+        this.entries ??= (async () => {
+            const entries = new Map<string, CacheEntry>();
+            try {
+                const data = JSON.parse(await readFile(this.filePath, 'utf-8')) as Record<string, CacheEntry>;
+                const now = Date.now();
+                for (const [key, entry] of Object.entries(data)) {
+                    if (entry.expiresAt > now) {
+                        entries.set(key, entry);
+                    }
+                }
+            } catch {
+                // Missing or corrupt cache file - start empty
+            }
+            return entries;
+        })();
+        return this.entries;
+    }
+
+    /**
+     * Write all entries back to disk, after any save already in progress.
+     * Each save writes the latest entries, so queued saves never lose a change.
+     */
+    private save(): Promise<void> {
+        const write = async (): Promise<void> => {
+            const entries = await this.load();
+            const tempPath = `${this.filePath}.${process.pid}.tmp`;
+            await mkdir(dirname(this.filePath), { recursive: true });
+            await writeFile(tempPath, JSON.stringify(Object.fromEntries(entries)), 'utf-8');
+            await rename(tempPath, this.filePath);
+        };
+        const saved = this.saving.then(write);
+        // A failed save shouldn't stop later ones from running
+        this.saving = saved.catch(() => undefined);
+        return saved;
+    }
+
+    async get<T>(key: string): Promise<T | undefined> {
+        const entries = await this.load();
+        const entry = entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            entries.delete(key);
+            return undefined;
+        }
+        return entry.value as T;
+    }
+
+    async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        const entries = await this.load();
+        entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        await this.save();
+    }
+
+    async delete(key: string): Promise<void> {
+        const entries = await this.load();
+        if (entries.delete(key)) {
+            await this.save();
+        }
+    }
+
+    async deleteByPrefix(prefix: string): Promise<void> {
+        const entries = await this.load();
+        let changed = false;
+        for (const key of entries.keys()) {
+            if (key.startsWith(prefix)) {
+                entries.delete(key);
+                changed = true;
+            }
+        }
+        if (changed) {
+            await this.save();
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.entries = Promise.resolve(new Map());
+        await this.save();
+    }
+}
@@ -0,0 +1,244 @@
+/**
+ * Typed errors raised by GitHubAPI.
+ *
+ * By default most GitHubAPI methods swallow failures and return a sentinel
+ * (`false`, `null`, `[]`). With `strict: true` in GitHubAPIOptions they throw
+ * one of these instead, so callers can tell "not found" from "rate limited"
+ * from "network down".
+ */
+
+import type { AuthError } from './types.js';
+
+/**
+ * Base class for every error raised by GitHubAPI
+ */
+export class GitHubAPIError extends Error {
+    /** HTTP status code, when the failure came from an HTTP response */
+    readonly status?: number;
+
+    constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'GitHubAPIError';
+        this.status = options.status;
+    }
+}
+
+/**
+ * The requested repository, issue, project, or other resource does not exist
+ * (or is not visible to the current token)
+ */
+export class NotFoundError extends GitHubAPIError {
+    constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+        super(message, options);
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * GitHub rejected the request because a primary or secondary rate limit was hit
+ */
+export class RateLimitedError extends GitHubAPIError {
+    /** When the rate limit window resets, if known */
+    readonly resetAt: Date | null;
+    /** Seconds GitHub asked us to wait before retrying, if provided */
+    readonly retryAfter: number | null;
+
+    constructor(
+        message: string,
+        options: { status?: number; cause?: unknown; resetAt?: Date | null; retryAfter?: number | null } = {}
+    ) {
+        super(message, options);
+        this.name = 'RateLimitedError';
+        this.resetAt = options.resetAt ?? null;
+        this.retryAfter = options.retryAfter ?? null;
+    }
+}
+
+/**
+ * The token is valid but not allowed to perform this operation
+ */
+export class ForbiddenError extends GitHubAPIError {
+    constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+        super(message, options);
+        this.name = 'ForbiddenError';
+    }
+}
+
+/**
+ * GitHub rejected the input (bad field value, unknown option ID, etc.)
+ */
+export class ValidationError extends GitHubAPIError {
+    constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+        super(message, options);
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * The request never got a usable response: connection failure, DNS, timeout, or 5xx
+ */
+export class NetworkError extends GitHubAPIError {
+    constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+        super(message, options);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * Authentication problem: missing scopes, SSO enforcement, or an expired token.
+ * Implements the AuthError interface passed to `onAuthError`.
+ */
+export class AuthenticationError extends GitHubAPIError implements AuthError {
+    type: AuthError['type'];
+    requiredScopes?: string[];
+    ssoUrl?: string;
+
+    constructor(
+        message: string,
+        type: AuthError['type'],
+        options: { status?: number; cause?: unknown; requiredScopes?: string[]; ssoUrl?: string } = {}
+    ) {
+        super(message, options);
+        this.name = 'AuthenticationError';
+        this.type = type;
+        this.requiredScopes = options.requiredScopes;
+        this.ssoUrl = options.ssoUrl;
+    }
+}
+
+/**
+ * Read a header from either a plain object or a Headers-like object
+ */
+function readHeader(headers: unknown, name: string): string | null {
+    if (!headers || typeof headers !== 'object') return null;
+    if ('get' in headers && typeof (headers as { get: unknown }).get === 'function') {
+        return (headers as { get(name: string): string | null }).get(name);
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return value === undefined || value === null ? null : String(value);
+}
+
+/**
+ * Build a RateLimitedError from response headers
+ */
+function rateLimitedFromHeaders(message: string, headers: unknown, status: number | undefined, cause: unknown): RateLimitedError {
+    const retryAfterHeader = readHeader(headers, 'retry-after');
+    const resetHeader = readHeader(headers, 'x-ratelimit-reset');
+    return new RateLimitedError(message, {
+        status,
+        cause,
+        retryAfter: retryAfterHeader ? parseInt(retryAfterHeader, 10) || null : null,
+        resetAt: resetHeader ? new Date(parseInt(resetHeader, 10) * 1000) : null,
+    });
+}
+
+/**
+ * Map an HTTP status code (from octokit or a raw fetch Response) to a GitHubAPIError subclass
+ */
+export function errorFromStatus(
+    status: number,
+    message: string,
+    headers?: unknown,
+    cause?: unknown
+): GitHubAPIError {
+    if (status === 401) {
+        return new AuthenticationError(
+            'Your GitHub token is invalid or has expired.',
+            'TOKEN_EXPIRED',
+            { status, cause }
+        );
+    }
+    if (status === 429 || (status === 403 && (
+        readHeader(headers, 'retry-after') !== null ||
+        readHeader(headers, 'x-ratelimit-remaining') === '0' ||
+        /rate limit/i.test(message)
+    ))) {
+        return rateLimitedFromHeaders(message, headers, status, cause);
+    }
+    if (status === 403) return new ForbiddenError(message, { status, cause });
+    if (status === 404) return new NotFoundError(message, { status, cause });
+    if (status === 400 || status === 422) return new ValidationError(message, { status, cause });
+    if (status >= 500) return new NetworkError(message, { status, cause });
+
+    return new GitHubAPIError(message, { status, cause });
+}
+
+/**
+ * Whether an error (or one of its causes) is a failed connection rather than
+ * a bug. fetch() rejects with `TypeError: fetch failed`, with the socket
+ * error code on its cause.
+ */
+function isFetchFailure(error: unknown): boolean {
+    for (let current = error, depth = 0; current instanceof Error && depth < 5; depth++) {
+        if (current instanceof TypeError && current.message === 'fetch failed') return true;
+        const code = (current as { code?: unknown }).code;
+        if (typeof code === 'string' && /^(ECONN|ENOTFOUND|ETIMEDOUT|EAI_AGAIN)/.test(code)) return true;
+        current = current.cause;
+    }
+    return false;
+}
+
+/**
+ * Convert any error thrown by @octokit/graphql or fetch into a GitHubAPIError subclass.
+ * Errors that are already GitHubAPIErrors are returned unchanged.
+ */
+export function toGitHubAPIError(error: unknown): GitHubAPIError {
+    if (error instanceof GitHubAPIError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error && typeof error === 'object') {
+        // GraphQL-level errors (HTTP 200 with an errors array)
+        if ('errors' in error) {
+            const gqlError = error as {
+                errors?: Array<{ type?: string; message?: string }>;
+                headers?: unknown;
+            };
+            const first = gqlError.errors?.[0];
+            const firstMessage = first?.message || message;
+
+            if (gqlError.errors?.some(e => e.type === 'INSUFFICIENT_SCOPES')) {
+                return new AuthenticationError(
+                    'Your GitHub token is missing required scopes. GitHub Projects requires the read:project scope.',
+                    'INSUFFICIENT_SCOPES',
+                    { cause: error, requiredScopes: ['read:project', 'project'] }
+                );
+            }
+            if (gqlError.errors?.some(e => e.message?.includes('SSO') || e.message?.includes('SAML'))) {
+                return new AuthenticationError(
+                    'SSO authentication required for this organization.',
+                    'SSO_REQUIRED',
+                    { cause: error }
+                );
+            }
+
+            switch (first?.type) {
+                case 'NOT_FOUND':
+                    return new NotFoundError(firstMessage, { cause: error });
+                case 'RATE_LIMITED':
+                    return rateLimitedFromHeaders(firstMessage, gqlError.headers, undefined, error);
+                case 'FORBIDDEN':
+                    return new ForbiddenError(firstMessage, { cause: error });
+                case 'UNPROCESSABLE':
+                case 'BAD_REQUEST':
+                case 'INVALID_ARGUMENT':
+                    return new ValidationError(firstMessage, { cause: error });
+            }
+
+            return new GitHubAPIError(firstMessage, { cause: error });
+        }
+
+        // HTTP-level errors (octokit RequestError)
+        if ('status' in error && typeof (error as { status: unknown }).status === 'number') {
+            const status = (error as { status: number }).status;
+            const headers = (error as { response?: { headers?: unknown } }).response?.headers;
+            return errorFromStatus(status, message, headers, error);
+        }
+    }
+
+    if (isFetchFailure(error)) {
+        return new NetworkError(message, { cause: error });
+    }
+
+    return new GitHubAPIError(message, { cause: error });
+}
@@ -0,0 +1,93 @@
+/**
+ * Helpers for reading item field values and ordering items by
+ * single-select field options.
+ */
+
+import type { ProjectItem, StatusField } from './types.js';
+
+/**
+ * Position of a value among a single-select field's options (case-insensitive).
+ * Unknown or empty values sort last with index 999.
+ */
+export function getOptionIndex(field: StatusField, value: string | null | undefined): number {
+    if (!value) return 999;
+    const lower = value.toLowerCase();
+    const index = field.options.findIndex(opt => opt.name.toLowerCase() === lower);
+    return index === -1 ? 999 : index;
+}
+
+/**
+ * Group items into columns by a single-select field, in the field's option order.
+ * Items with no value (or a value not among the options) go in a trailing
+ * column with a null option. A field without a name is read from each item's status.
+ */
+export function groupItemsByField(
+    items: ProjectItem[],
+    field: StatusField
+): Array<{ option: { id: string; name: string } | null; items: ProjectItem[] }> {
+    const columns = field.options.map(option => ({
+        option: option as { id: string; name: string } | null,
+        items: [] as ProjectItem[],
+    }));
+    const unassigned: ProjectItem[] = [];
+
+    for (const item of items) {
+        const index = getOptionIndex(field, field.name ? item.fields[field.name] : item.status);
+        if (index === 999) {
+            unassigned.push(item);
+        } else {
+            columns[index].items.push(item);
+        }
+    }
+
+    if (unassigned.length > 0) {
+        columns.push({ option: null, items: unassigned });
+    }
+    return columns;
+}
+
+/**
+ * Read a field value from an item by field name.
+ * Built-in fields (Title, Assignees, Labels, Repository, Milestone, Parent
+ * issue) map to the corresponding ProjectItem properties; everything else reads `item.fields`.
+ */
+export function getItemFieldValue(item: ProjectItem, fieldName: string): string | null {
+    switch (fieldName.toLowerCase()) {
+        case 'title':
+            return item.title;
+        case 'assignees':
+            return item.assignees.length > 0 ? item.assignees.join(', ') : null;
+        case 'labels':
+            return item.labels.length > 0 ? item.labels.map(l => l.name).join(', ') : null;
+        case 'repository':
+            return item.repository;
+        case 'milestone':
+            return item.milestone?.title ?? null;
+        case 'parent issue':
+            return item.parent?.title ?? null;
+    }
+
+    if (fieldName in item.fields) return item.fields[fieldName] || null;
+
+    // Fall back to a case-insensitive match
+    const lower = fieldName.toLowerCase();
+    const key = Object.keys(item.fields).find(k => k.toLowerCase() === lower);
+    return key ? item.fields[key] || null : null;
+}
+
+/**
+ * Read every value of a field from an item, for grouping.
+ * Multi-valued fields (Assignees, Labels) return one entry per value;
+ * other fields return at most one.
+ */
+export function getItemFieldValues(item: ProjectItem, fieldName: string): string[] {
+    switch (fieldName.toLowerCase()) {
+        case 'assignees':
+            return [...item.assignees];
+        case 'labels':
+            return item.labels.map(l => l.name);
+    }
+
+    const value = getItemFieldValue(item, fieldName);
+    return value === null ? [] : [value];
+}
@@ -0,0 +1,235 @@
+/**
+ * Evaluator for parsed GitHub Projects filters.
+ *
+ * Applies a FilterAST (or a raw filter string) to normalized ProjectItems
+ * locally, resolving macros like `@me` and `@current` from a context.
+ */
+
+import type { ProjectItem, ProjectIteration } from './types.js';
+import { parseFilter } from './filter-parser.js';
+import type { FilterAST, FilterOperand, FilterTerm, FilterValue } from './filter-parser.js';
+import { findIterationByTitle, resolveIteration } from './iterations.js';
+import { getItemFieldValue } from './fields.js';
+
+/**
+ * Values needed to resolve filter macros
+ */
+export interface FilterContext {
+    /** Login that `@me` refers to */
+    username?: string | null;
+    /** Date that `@today` and iteration macros are relative to. Defaults to now */
+    today?: Date;
+    /** Iterations for each iteration field, keyed by field name (for `@current` etc.) */
+    iterations?: Record<string, ProjectIteration[]>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get all values of a field on an item, lowercased.
+ * Multi-valued fields (assignees, labels) return one entry per value.
+ */
+function getFieldValues(item: ProjectItem, field: string): string[] {
+    switch (field.toLowerCase()) {
+        case 'assignee':
+        case 'assignees':
+            return item.assignees.map(a => a.toLowerCase());
+        case 'label':
+        case 'labels':
+            return item.labels.map(l => l.name.toLowerCase());
+        case 'status':
+            return item.status ? [item.status.toLowerCase()] : [];
+        case 'type':
+            return item.issueType ? [item.issueType.toLowerCase()] : [];
+        case 'repo':
+        case 'repository': {
+            // Match both `repo:name` and `repo:owner/name`
+            if (!item.repository) return [];
+            const name = item.repository.toLowerCase();
+            return item.repositoryOwner ? [name, `${item.repositoryOwner.toLowerCase()}/${name}`] : [name];
+        }
+        case 'milestone':
+            return item.milestone ? [item.milestone.title.toLowerCase()] : [];
+        case 'parent-issue':
+            // GitHub writes parent references as owner/name#number.
+            // Needs items listed with `includeHierarchy`.
+            return item.parent ? [`${item.parent.repository}#${item.parent.number}`.toLowerCase()] : [];
+    }
+
+    // Custom fields, allowing dashes in place of spaces (e.g. target-date)
+    const value = getItemFieldValue(item, field) ?? getItemFieldValue(item, field.replace(/-/g, ' '));
+    return value ? [value.toLowerCase()] : [];
+}
+
+/**
+ * Find iterations for a field by case-insensitive name
+ */
+function findIterations(field: string, context: FilterContext): ProjectIteration[] {
+    if (!context.iterations) return [];
+    const lower = field.toLowerCase();
+    const key = Object.keys(context.iterations).find(k => k.toLowerCase() === lower);
+    return key ? context.iterations[key] : [];
+}
+
+/**
+ * Resolve an operand to a lowercased comparable string, or null if a macro can't be resolved
+ */
+function resolveOperand(operand: FilterOperand, field: string, context: FilterContext): string | null {
+    if (operand.kind === 'literal') return operand.value.toLowerCase();
+
+    const today = context.today ?? new Date();
+    switch (operand.name) {
+        case '@me':
+            return context.username ? context.username.toLowerCase() : null;
+        case '@today': {
+            const date = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()) + operand.offset * DAY_MS);
+            return date.toISOString().slice(0, 10);
+        }
+        case '@current':
+        case '@next':
+        case '@previous': {
+            const iterations = [...findIterations(field, context)]
+                .sort((a, b) => a.startDate.localeCompare(b.startDate));
+            const base = resolveIteration(iterations, operand.name.slice(1) as 'current' | 'next' | 'previous', today);
+            if (!base) return null;
+            const target = iterations[iterations.findIndex(it => it.id === base.id) + operand.offset];
+            return target ? target.title.toLowerCase() : null;
+        }
+    }
+}
+
+/**
+ * Compare two values numerically when both are numbers, otherwise as strings
+ * (which orders ISO dates correctly)
+ */
+function compare(a: string, b: string): number {
+    const an = Number(a);
+    const bn = Number(b);
+    if (a.trim() !== '' && b.trim() !== '' && Number.isFinite(an) && Number.isFinite(bn)) {
+        return an - bn;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Map a value to the value it is ordered by. Iterations are ordered by start
+ * date rather than title; an unknown iteration title maps to null.
+ */
+function toOrderedValue(value: string, field: string, context: FilterContext): string | null {
+    const iterations = findIterations(field, context);
+    if (iterations.length === 0) return value;
+    return findIterationByTitle(iterations, value)?.startDate ?? null;
+}
+
+/**
+ * Check one item value against one qualifier value
+ */
+function matchesValue(itemValue: string, value: FilterValue, field: string, context: FilterContext): boolean {
+    switch (value.kind) {
+        case 'equals': {
+            const expected = resolveOperand(value.operand, field, context);
+            return expected !== null && itemValue === expected;
+        }
+        case 'compare': {
+            const resolved = resolveOperand(value.operand, field, context);
+            const expected = resolved === null ? null : toOrderedValue(resolved, field, context);
+            const actual = toOrderedValue(itemValue, field, context);
+            if (expected === null || actual === null) return false;
+            const result = compare(actual, expected);
+            if (value.op === '>') return result > 0;
+            if (value.op === '>=') return result >= 0;
+            if (value.op === '<') return result < 0;
+            return result <= 0;
+        }
+        case 'range': {
+            const resolvedFrom = value.from ? resolveOperand(value.from, field, context) : null;
+            const resolvedTo = value.to ? resolveOperand(value.to, field, context) : null;
+            const from = resolvedFrom === null ? null : toOrderedValue(resolvedFrom, field, context);
+            const to = resolvedTo === null ? null : toOrderedValue(resolvedTo, field, context);
+            const actual = toOrderedValue(itemValue, field, context);
+            if ((value.from && from === null) || (value.to && to === null) || actual === null) return false;
+            return (from === null || compare(actual, from) >= 0) &&
+                (to === null || compare(actual, to) <= 0);
+        }
+    }
+}
+
+/**
+ * Check whether an item satisfies a single term
+ */
+function matchesTerm(item: ProjectItem, term: FilterTerm, context: FilterContext): boolean {
+    let result: boolean;
+
+    switch (term.kind) {
+        case 'qualifier': {
+            const itemValues = getFieldValues(item, term.field);
+            result = term.values.some(value =>
+                itemValues.some(itemValue => matchesValue(itemValue, value, term.field, context))
+            );
+            break;
+        }
+        case 'has':
+            result = getFieldValues(item, term.field).length > 0;
+            break;
+        case 'is':
+            switch (term.value) {
+                case 'open':
+                case 'closed':
+                case 'merged':
+                    result = item.state === term.value;
+                    break;
+                case 'draft':
+                    result = item.type === 'draft';
+                    break;
+                case 'archived':
+                    result = item.archived;
+                    break;
+                case 'issue':
+                    result = item.type === 'issue';
+                    break;
+                case 'pr':
+                case 'pull_request':
+                    result = item.type === 'pull_request';
+                    break;
+                default:
+                    result = false;
+            }
+            break;
+        case 'text': {
+            const text = term.text.toLowerCase();
+            result = item.title.toLowerCase().includes(text) ||
+                (item.number !== null && text.replace(/^#/, '') === String(item.number));
+            break;
+        }
+    }
+
+    return term.negated ? !result : result;
+}
+
+/**
+ * Check whether an item matches a filter (all terms must match)
+ */
+export function matchesFilter(
+    item: ProjectItem,
+    filter: FilterAST | string,
+    context: FilterContext = {}
+): boolean {
+    const ast = typeof filter === 'string' ? parseFilter(filter) : filter;
+    return ast.terms.every(term => matchesTerm(item, term, context));
+}
+
+/**
+ * Filter items by a GitHub Projects filter string or parsed AST
+ *
+ * @example
+ * const mine = applyFilter(items, 'assignee:@me is:open -label:blocked', { username: api.username });
+ */
+export function applyFilter(
+    items: ProjectItem[],
+    filter: FilterAST | string,
+    context: FilterContext = {}
+): ProjectItem[] {
+    const ast = typeof filter === 'string' ? parseFilter(filter) : filter;
+    if (ast.terms.length === 0) return items;
+    return items.filter(item => matchesFilter(item, ast, context));
+}
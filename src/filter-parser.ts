@@ -0,0 +1,232 @@
+/**
+ * Parser for GitHub Projects filter syntax.
+ *
+ * Turns a view filter string such as
+ *   assignee:@me status:"In Progress" -label:blocked is:open estimate:>3
+ * into a typed AST. Terms are implicitly ANDed; comma-separated values
+ * within one qualifier are ORed.
+ *
+ * Supported syntax:
+ * - Qualifiers: `field:value`, `field:"quoted value"`, `field:a,b`
+ * - Negation: `-field:value`, `-is:closed`, `-"some text"`
+ * - Presence: `has:field`, `no:field`
+ * - State/type: `is:open`, `is:closed`, `is:merged`, `is:draft`, `is:archived`,
+ *   `is:issue`, `is:pr`
+ * - Comparisons: `field:>5`, `field:>=5`, `field:<2024-01-01`, `field:<=@today`
+ * - Ranges: `field:1..5`, `field:2024-01-01..2024-01-31`, `field:5..*`
+ * - Macros: `@me`, `@current`, `@next`, `@previous`, `@today`, with offsets
+ *   like `@today-7d` or `@current+1`
+ * - Free text: any other word or quoted phrase, matched against the title
+ *
+ * The parser is lenient: it never throws, and malformed input degrades to
+ * free-text terms.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A macro name usable as a filter value
+ */
+export type FilterMacro = '@me' | '@current' | '@next' | '@previous' | '@today';
+
+/**
+ * A single value inside a qualifier: a literal or a macro
+ */
+export type FilterOperand =
+    | { kind: 'literal'; value: string }
+    | { kind: 'macro'; name: FilterMacro; offset: number };
+
+/**
+ * How a qualifier value is compared against an item's field
+ */
+export type FilterValue =
+    | { kind: 'equals'; operand: FilterOperand }
+    | { kind: 'compare'; op: '>' | '>=' | '<' | '<='; operand: FilterOperand }
+    | { kind: 'range'; from: FilterOperand | null; to: FilterOperand | null };
+
+/**
+ * One term of a filter. All terms must match for an item to pass.
+ */
+export type FilterTerm =
+    | { kind: 'qualifier'; field: string; negated: boolean; values: FilterValue[] }
+    | { kind: 'has'; field: string; negated: boolean }
+    | { kind: 'is'; value: string; negated: boolean }
+    | { kind: 'text'; text: string; negated: boolean };
+
+/**
+ * Parsed filter
+ */
+export interface FilterAST {
+    terms: FilterTerm[];
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+/**
+ * Split a filter string on whitespace, keeping quoted sections together.
+ * Quotes are preserved in the tokens so the parser can tell quoted values apart.
+ */
+export function tokenizeFilter(filter: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (const ch of filter) {
+        if (ch === '"') {
+            inQuotes = !inQuotes;
+            current += ch;
+        } else if (/\s/.test(ch) && !inQuotes) {
+            if (current) tokens.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current) tokens.push(current);
+
+    return tokens;
+}
+
+/**
+ * Split on a separator outside of quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"') {
+            inQuotes = !inQuotes;
+            current += ch;
+        } else if (!inQuotes && text.startsWith(separator, i)) {
+            parts.push(current);
+            current = '';
+            i += separator.length - 1;
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+
+    return parts;
+}
+
+/**
+ * Remove surrounding quotes (and any stray unbalanced quote)
+ */
+function unquote(text: string): string {
+    if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+        return text.slice(1, -1);
+    }
+    return text.replace(/"/g, '');
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+const MACRO_PATTERN = /^(@me|@current|@next|@previous|@today)(?:([+-]\d+)d?)?$/i;
+
+/**
+ * Parse a single operand, recognizing macros unless quoted
+ */
+function parseOperand(raw: string): FilterOperand {
+    if (!raw.startsWith('"')) {
+        const macro = raw.match(MACRO_PATTERN);
+        if (macro) {
+            return {
+                kind: 'macro',
+                name: macro[1].toLowerCase() as FilterMacro,
+                offset: macro[2] ? parseInt(macro[2], 10) : 0,
+            };
+        }
+    }
+    return { kind: 'literal', value: unquote(raw) };
+}
+
+/**
+ * Parse one comma-separated value of a qualifier
+ */
+function parseValue(raw: string): FilterValue {
+    if (!raw.startsWith('"')) {
+        const compare = raw.match(/^(>=|<=|>|<)(.+)$/);
+        if (compare) {
+            return {
+                kind: 'compare',
+                op: compare[1] as '>' | '>=' | '<' | '<=',
+                operand: parseOperand(compare[2]),
+            };
+        }
+
+        const range = splitOutsideQuotes(raw, '..');
+        if (range.length === 2) {
+            return {
+                kind: 'range',
+                from: range[0] === '' || range[0] === '*' ? null : parseOperand(range[0]),
+                to: range[1] === '' || range[1] === '*' ? null : parseOperand(range[1]),
+            };
+        }
+    }
+
+    return { kind: 'equals', operand: parseOperand(raw) };
+}
+
+/**
+ * Parse a single token into a term
+ */
+function parseTerm(token: string): FilterTerm {
+    let negated = false;
+    let body = token;
+    if (body.length > 1 && body.startsWith('-')) {
+        negated = true;
+        body = body.slice(1);
+    }
+
+    // Qualifier: key:value, where key may be quoted ("Target date":>@today)
+    const colon = splitOutsideQuotes(body, ':');
+    if (colon.length >= 2 && colon[0] !== '') {
+        const field = unquote(colon[0]);
+        const rawValue = colon.slice(1).join(':');
+        const lowerField = field.toLowerCase();
+
+        if (rawValue === '') {
+            return { kind: 'text', text: unquote(body), negated };
+        }
+        if (lowerField === 'has' || lowerField === 'no') {
+            return { kind: 'has', field: unquote(rawValue), negated: negated !== (lowerField === 'no') };
+        }
+        if (lowerField === 'is') {
+            return { kind: 'is', value: unquote(rawValue).toLowerCase(), negated };
+        }
+
+        const values = splitOutsideQuotes(rawValue, ',')
+            .filter(v => v !== '')
+            .map(parseValue);
+        return { kind: 'qualifier', field, negated, values };
+    }
+
+    return { kind: 'text', text: unquote(body), negated };
+}
+
+/**
+ * Parse a GitHub Projects filter string into an AST
+ *
+ * @example
+ * parseFilter('assignee:@me -label:blocked')
+ * // => { terms: [
+ * //   { kind: 'qualifier', field: 'assignee', negated: false,
+ * //     values: [{ kind: 'equals', operand: { kind: 'macro', name: '@me', offset: 0 } }] },
+ * //   { kind: 'qualifier', field: 'label', negated: true,
+ * //     values: [{ kind: 'equals', operand: { kind: 'literal', value: 'blocked' } }] },
+ * // ] }
+ */
+export function parseFilter(filter: string | null | undefined): FilterAST {
+    if (!filter) return { terms: [] };
+    return { terms: tokenizeFilter(filter.trim()).map(parseTerm) };
+}
@@ -31,7 +31,7 @@ export async function detectRepository(options: GitOptions = {}): Promise<RepoIn
     try {
         const { stdout } = await execGit('git remote get-url origin', options);
         const url = stdout.trim();
-        return parseGitHubUrl(url);
+        return parseGitHubUrl(url, options.hosts);
     } catch {
         return null;
     }
@@ -35,70 +35,582 @@ import type {
     TokenProvider,
     GitHubAPIOptions,
     AuthError,
+    NestedPaginationEvent,
+    RetryOptions,
+    RateLimitInfo,
+    CacheStore,
+    CacheResource,
     RepoInfo,
     Project,
+    ProjectConfig,
     ProjectItem,
+    ProjectItemsOptions,
     StatusField,
+    FieldRef,
+    ProjectIteration,
+    FieldValueInput,
     IssueDetails,
     Collaborator,
     IssueReference,
+    ProjectV2View,
+    PullRequest,
+    PullRequestReviewSummary,
+    CreatePullRequestInput,
+    CheckState,
+    ReviewDecision,
+    IssueRef,
+    LinkedIssue,
+    SubIssueProgress,
+    IssueHierarchy,
+    Milestone,
+    MilestoneInfo,
+    CreateMilestoneInput,
+    IssueComment,
+    ReactionContent,
+    Label,
+    LabelInput,
 } from './types.js';
 import * as queries from './queries.js';
+import {
+    AuthenticationError,
+    NotFoundError,
+    ValidationError,
+    errorFromStatus,
+    toGitHubAPIError,
+} from './errors.js';
+import {
+    DEFAULT_RETRY_OPTIONS,
+    computeRetryDelay,
+    isIdempotentRequest,
+    parseRateLimitCost,
+    parseRateLimitHeaders,
+    sleep,
+} from './rate-limit.js';
+import { DEFAULT_CACHE_TTL } from './cache.js';
+import {
+    DEFAULT_GITHUB_HOST,
+    normalizeHost,
+    getGraphQLBaseUrl,
+    getRestApiUrl,
+} from './url-parser.js';
+import { getOptionIndex } from './fields.js';
+import { renderView } from './view-engine.js';
+import { planSchema, FIELD_DATA_TYPES } from './schema-sync.js';
+import {
+    updateFieldMutation,
+    clearFieldMutation,
+    labelsMutation,
+    archiveItemMutation,
+    itemPositionMutation,
+    buildBulkMutation,
+    getFailedAliases,
+    runWithConcurrency,
+} from './bulk.js';
+import type {
+    BulkOperation,
+    BulkMutation,
+    BulkOptions,
+    BulkReport,
+    BulkResult,
+    ReorderReport,
+} from './bulk.js';
+import type {
+    ProjectSchema,
+    SchemaState,
+    SchemaPlan,
+    SchemaChange,
+    SchemaChangeResult,
+    FieldSchema,
+    PlannedOption,
+} from './schema-sync.js';
+import type { RenderedView, RenderViewOptions } from './view-engine.js';
+import {
+    GraphQLBatcher,
+    userIdLookup,
+    issueLookup,
+    labelIdLookup,
+} from './batcher.js';
+import type { IssueLookupKind } from './batcher.js';
 
 /**
- * Create an AuthError with the appropriate type
+ * Check if an error is due to insufficient OAuth scopes or other auth issues
  */
-function createAuthError(
-    message: string,
-    type: AuthError['type'],
-    details?: { requiredScopes?: string[]; ssoUrl?: string }
-): AuthError {
-    const error = new Error(message) as AuthError;
-    error.type = type;
-    error.requiredScopes = details?.requiredScopes;
-    error.ssoUrl = details?.ssoUrl;
-    return error;
+function checkAuthError(error: unknown): AuthError | null {
+    const apiError = toGitHubAPIError(error);
+    return apiError instanceof AuthenticationError ? apiError : null;
 }
 
 /**
- * Check if an error is due to insufficient OAuth scopes or other auth issues
+ * Authenticated GraphQL request function.
+ * Same call signature as @octokit/graphql, with retries applied.
  */
-function checkAuthError(error: unknown): AuthError | null {
-    if (error && typeof error === 'object' && 'errors' in error) {
-        const gqlError = error as { errors?: Array<{ type?: string; message?: string }> };
-
-        const scopeError = gqlError.errors?.find(e => e.type === 'INSUFFICIENT_SCOPES');
-        if (scopeError) {
-            return createAuthError(
-                'Your GitHub token is missing required scopes. GitHub Projects requires the read:project scope.',
-                'INSUFFICIENT_SCOPES',
-                { requiredScopes: ['read:project', 'project'] }
-            );
+type GraphQLClient = <ResponseData>(
+    query: string,
+    parameters?: Record<string, unknown>
+) => Promise<ResponseData>;
+
+/**
+ * A page of a GraphQL connection
+ */
+interface Connection<T> {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: T[];
+}
+
+/**
+ * Raw project field node as returned by PROJECT_FIELDS_QUERY
+ */
+interface RawProjectField {
+    __typename: string;
+    id: string;
+    name: string;
+    dataType: string;
+    options?: Array<{ id: string; name: string; color: string; description: string }>;
+    configuration?: {
+        iterations: RawIteration[];
+        completedIterations: RawIteration[];
+    };
+}
+
+/**
+ * Raw iteration node from an iteration field's configuration
+ */
+interface RawIteration {
+    id: string;
+    title: string;
+    startDate: string;
+    duration: number;
+}
+
+/**
+ * List an iteration field's iterations, completed ones included, by start date
+ */
+function listIterations(field: RawProjectField): ProjectIteration[] | undefined {
+    if (!field.configuration) return undefined;
+    return [
+        ...field.configuration.completedIterations.map(it => ({ ...it, completed: true })),
+        ...field.configuration.iterations.map(it => ({ ...it, completed: false })),
+    ].sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/**
+ * Raw field value node as selected by the project item queries
+ */
+interface RawFieldValue {
+    __typename: string;
+    name?: string;
+    text?: string;
+    number?: number;
+    date?: string;
+    title?: string;
+    field?: { name: string };
+}
+
+/**
+ * Raw parent or sub-issue node as selected by LINKED_ISSUE_SELECTION
+ */
+interface RawLinkedIssue {
+    id: string;
+    number: number;
+    title: string;
+    state: 'OPEN' | 'CLOSED';
+    url: string;
+    repository: { nameWithOwner: string };
+}
+
+/**
+ * Convert a raw parent or sub-issue into the normalized LinkedIssue shape
+ */
+function normalizeLinkedIssue(issue: RawLinkedIssue): LinkedIssue {
+    return {
+        id: issue.id,
+        number: issue.number,
+        title: issue.title,
+        state: issue.state === 'OPEN' ? 'open' : 'closed',
+        url: issue.url,
+        repository: issue.repository.nameWithOwner,
+    };
+}
+
+/**
+ * Raw project item node as returned by PROJECT_ITEMS_QUERY
+ */
+interface RawProjectItem {
+    id: string;
+    isArchived?: boolean;
+    fieldValues: Connection<RawFieldValue>;
+    content: {
+        __typename: string;
+        id?: string;
+        title?: string;
+        number?: number;
+        url?: string;
+        state?: string;
+        closedAt?: string | null;
+        merged?: boolean;
+        issueType?: { name: string } | null;
+        /** Set by loadItemHierarchy() */
+        parent?: RawLinkedIssue | null;
+        /** Set by loadItemHierarchy() */
+        subIssuesSummary?: SubIssueProgress;
+        milestone?: MilestoneInfo | null;
+        assignees?: Connection<{ login: string }>;
+        labels?: Connection<{ name: string; color: string }>;
+        repository?: { name: string; owner: { login: string } };
+    } | null;
+}
+
+/**
+ * Raw project item together with the project it belongs to
+ */
+type RawProjectItemWithProject = RawProjectItem & { project: { id: string; title: string } };
+
+/**
+ * Convert a raw project item into the normalized ProjectItem shape
+ */
+function normalizeProjectItem(
+    item: RawProjectItem,
+    projectId: string,
+    projectTitle: string,
+    statusField: StatusField | null
+): ProjectItem {
+    const content = item.content!;
+
+    // Extract all field values into a map
+    const fields: Record<string, string> = {};
+    for (const fv of item.fieldValues.nodes) {
+        const fieldName = fv.field?.name;
+        if (!fieldName) continue;
+
+        if (fv.__typename === 'ProjectV2ItemFieldSingleSelectValue' && fv.name) {
+            fields[fieldName] = fv.name;
+        } else if (fv.__typename === 'ProjectV2ItemFieldTextValue' && fv.text) {
+            fields[fieldName] = fv.text;
+        } else if (fv.__typename === 'ProjectV2ItemFieldNumberValue' && fv.number !== undefined) {
+            fields[fieldName] = fv.number.toString();
+        } else if (fv.__typename === 'ProjectV2ItemFieldDateValue' && fv.date) {
+            fields[fieldName] = fv.date;
+        } else if (fv.__typename === 'ProjectV2ItemFieldIterationValue' && fv.title) {
+            fields[fieldName] = fv.title;
         }
+    }
 
-        const ssoError = gqlError.errors?.find(e =>
-            e.message?.includes('SSO') || e.message?.includes('SAML')
-        );
-        if (ssoError) {
-            return createAuthError(
-                'SSO authentication required for this organization.',
-                'SSO_REQUIRED'
-            );
+    let type: 'issue' | 'pull_request' | 'draft' = 'draft';
+    if (content.__typename === 'Issue') type = 'issue';
+    else if (content.__typename === 'PullRequest') type = 'pull_request';
+
+    const status = statusField?.name ? fields[statusField.name] || null : null;
+    const statusIndex = status && statusField
+        ? getOptionIndex(statusField, status)
+        : 999;
+
+    // Determine issue/PR state
+    let state: 'open' | 'closed' | 'merged' | null = null;
+    if (content.state) {
+        if (content.merged) {
+            state = 'merged';
+        } else if (content.state === 'OPEN') {
+            state = 'open';
+        } else {
+            state = 'closed';
         }
     }
 
-    return null;
+    return {
+        id: item.id,
+        title: content.title || 'Untitled',
+        number: content.number || null,
+        type,
+        issueType: content.issueType?.name || null,
+        status,
+        statusIndex,
+        state,
+        closedAt: content.closedAt ?? null,
+        archived: item.isArchived ?? false,
+        assignees: content.assignees?.nodes.map(a => a.login) || [],
+        labels: content.labels?.nodes || [],
+        repository: content.repository?.name || null,
+        repositoryOwner: content.repository?.owner.login || null,
+        url: content.url || null,
+        projectId,
+        projectTitle,
+        fields,
+        milestone: content.milestone ?? null,
+        // Only present when the hierarchy was loaded
+        ...(type === 'issue' && content.subIssuesSummary !== undefined && {
+            parent: content.parent ? normalizeLinkedIssue(content.parent) : null,
+            subIssueProgress: content.subIssuesSummary.total ? content.subIssuesSummary : null,
+        }),
+    };
+}
+
+/**
+ * Label as returned by the REST API
+ */
+interface RestLabel {
+    node_id: string;
+    name: string;
+    color: string;
+    description: string | null;
+}
+
+/**
+ * Convert a REST label into the normalized Label shape
+ */
+function normalizeRestLabel(label: RestLabel): Label {
+    return {
+        id: label.node_id,
+        name: label.name,
+        color: label.color,
+        description: label.description,
+    };
+}
+
+/**
+ * Raw comment node as selected by ISSUE_COMMENT_SELECTION
+ */
+interface RawIssueComment {
+    id: string;
+    url: string;
+    author: { login: string } | null;
+    body: string;
+    createdAt: string;
+    updatedAt: string;
+    viewerCanUpdate: boolean;
+    viewerCanDelete: boolean;
+    reactionGroups: Array<{
+        content: ReactionContent;
+        viewerHasReacted: boolean;
+        reactors: { totalCount: number };
+    }> | null;
+}
+
+/**
+ * Convert a raw comment into the normalized IssueComment shape.
+ * Reactions nobody has used are dropped.
+ */
+function normalizeComment(comment: RawIssueComment): IssueComment {
+    return {
+        id: comment.id,
+        url: comment.url,
+        author: comment.author?.login || 'unknown',
+        body: comment.body,
+        createdAt: comment.createdAt,
+        updatedAt: comment.updatedAt,
+        viewerCanUpdate: comment.viewerCanUpdate,
+        viewerCanDelete: comment.viewerCanDelete,
+        reactions: (comment.reactionGroups ?? [])
+            .filter(g => g.reactors.totalCount > 0)
+            .map(g => ({
+                content: g.content,
+                count: g.reactors.totalCount,
+                viewerHasReacted: g.viewerHasReacted,
+            })),
+    };
+}
+
+/**
+ * Raw pull request node as selected by PULL_REQUEST_SELECTION
+ */
+interface RawPullRequest {
+    id: string;
+    number: number;
+    title: string;
+    url: string;
+    state: 'OPEN' | 'CLOSED' | 'MERGED';
+    isDraft: boolean;
+    merged: boolean;
+    author: { login: string } | null;
+    headRefName: string;
+    baseRefName: string;
+    mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+    reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+    commits: { nodes: Array<{ commit: { statusCheckRollup: { state: string } | null } }> };
+    closingIssuesReferences: { nodes: IssueReference[] };
+}
+
+/**
+ * Map a GraphQL status or check rollup state onto CheckState
+ */
+function toCheckState(state: string): CheckState {
+    switch (state) {
+        case 'SUCCESS':
+            return 'success';
+        case 'FAILURE':
+            return 'failure';
+        case 'ERROR':
+            return 'error';
+        default:
+            // PENDING and EXPECTED
+            return 'pending';
+    }
+}
+
+/**
+ * Map a check run's status and conclusion onto CheckState
+ */
+function checkRunState(status: string, conclusion: string | null): CheckState {
+    if (status !== 'COMPLETED' || !conclusion) return 'pending';
+    switch (conclusion) {
+        case 'SUCCESS':
+        case 'NEUTRAL':
+        case 'SKIPPED':
+            return 'success';
+        case 'STALE':
+            return 'pending';
+        default:
+            // FAILURE, TIMED_OUT, CANCELLED, ACTION_REQUIRED, STARTUP_FAILURE
+            return 'failure';
+    }
+}
+
+/**
+ * Convert a raw pull request into the normalized PullRequest shape
+ */
+function normalizePullRequest(pr: RawPullRequest): PullRequest {
+    const rollup = pr.commits.nodes[0]?.commit.statusCheckRollup ?? null;
+
+    return {
+        id: pr.id,
+        number: pr.number,
+        title: pr.title,
+        url: pr.url,
+        state: pr.merged ? 'merged' : pr.state === 'OPEN' ? 'open' : 'closed',
+        isDraft: pr.isDraft,
+        author: pr.author?.login ?? null,
+        headRefName: pr.headRefName,
+        baseRefName: pr.baseRefName,
+        mergeable: pr.mergeable.toLowerCase() as PullRequest['mergeable'],
+        reviewDecision: pr.reviewDecision
+            ? pr.reviewDecision.toLowerCase() as ReviewDecision
+            : null,
+        checkState: rollup ? toCheckState(rollup.state) : null,
+        closingIssues: pr.closingIssuesReferences.nodes,
+    };
 }
 
 export class GitHubAPI {
-    private graphqlWithAuth: typeof graphql | null = null;
+    private graphqlWithAuth: GraphQLClient | null = null;
+    private batcher: GraphQLBatcher | null = null;
     private tokenProvider: TokenProvider;
     private onAuthError?: (error: AuthError) => void;
+    private onNestedPagination?: (event: NestedPaginationEvent) => void;
+    private strict: boolean;
+    private retryOptions: Required<RetryOptions> | null;
+    private onRateLimit?: (info: RateLimitInfo) => void;
+    private currentRateLimit: RateLimitInfo | null = null;
+    private cacheStore: CacheStore | null;
+    private cacheTtl: Record<CacheResource, number>;
+    private statusFieldRefs: Record<string, FieldRef>;
+    private defaultStatusField: string;
+    /** GitHub host this client talks to ('github.com' or a GHES hostname) */
+    public readonly host: string;
     public username: string | null = null;
 
     constructor(options: GitHubAPIOptions) {
         this.tokenProvider = options.tokenProvider;
+        this.host = normalizeHost(options.host ?? DEFAULT_GITHUB_HOST);
         this.onAuthError = options.onAuthError;
+        this.onNestedPagination = options.onNestedPagination;
+        this.strict = options.strict ?? false;
+        this.retryOptions = options.retry === false
+            ? null
+            : { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+        this.onRateLimit = options.onRateLimit;
+        this.cacheStore = options.cache?.store ?? null;
+        this.cacheTtl = { ...DEFAULT_CACHE_TTL, ...options.cache?.ttl };
+        this.statusFieldRefs = { ...options.statusFields };
+        this.defaultStatusField = options.defaultStatusField ?? 'Status';
+    }
+
+    /**
+     * Build the cache key for `resource:id`. Keys are prefixed with the host so
+     * clients for different GitHub instances can share one store.
+     */
+    private cacheKey(resource: CacheResource, id = ''): string {
+        return `${this.host}/${resource}:${id}`;
+    }
+
+    /**
+     * Return a cached value for `resource:id`, loading and caching it on a miss.
+     * Bypasses the cache entirely when none is configured or the TTL is 0.
+     */
+    private async cached<T>(resource: CacheResource, id: string, load: () => Promise<T>): Promise<T> {
+        const ttl = this.cacheTtl[resource];
+        if (!this.cacheStore || ttl <= 0) return load();
+
+        const key = this.cacheKey(resource, id);
+        const hit = await this.cacheStore.get<T>(key);
+        if (hit !== undefined) return hit;
+
+        const value = await load();
+        await this.cacheStore.set(key, value, ttl);
+        return value;
+    }
+
+    /**
+     * Drop cached entries for a resource, including variants keyed as `resource:id:...`.
+     * Without an id, drops every entry of that resource.
+     */
+    private async invalidate(resource: CacheResource, id?: string): Promise<void> {
+        if (!this.cacheStore) return;
+        if (id === undefined) {
+            await this.cacheStore.deleteByPrefix(this.cacheKey(resource));
+        } else {
+            await this.cacheStore.delete(this.cacheKey(resource, id));
+            await this.cacheStore.deleteByPrefix(`${this.cacheKey(resource, id)}:`);
+        }
+    }
+
+    /**
+     * Clear every cached response for this client's host
+     */
+    async clearCache(): Promise<void> {
+        await this.cacheStore?.deleteByPrefix(`${this.host}/`);
+    }
+
+    /**
+     * The most recently observed rate-limit budget, or null before the first request
+     */
+    get rateLimit(): RateLimitInfo | null {
+        return this.currentRateLimit;
+    }
+
+    /**
+     * Record a new rate-limit budget and notify listeners
+     */
+    private updateRateLimit(info: RateLimitInfo): void {
+        this.currentRateLimit = info;
+        if (this.onRateLimit) {
+            this.onRateLimit(info);
+        }
+    }
+
+    /**
+     * Wrap a GraphQL client so transient failures and rate limits are retried
+     * according to the configured retry policy. Non-idempotent mutations are
+     * only retried when rate limited.
+     */
+    private withRetry(client: typeof graphql): GraphQLClient {
+        return async <ResponseData>(query: string, parameters?: Record<string, unknown>) =>
+            this.retry(isIdempotentRequest(query), () => client<ResponseData>(query, parameters));
+    }
+
+    /**
+     * Run a request, retrying failures according to the configured retry policy
+     */
+    private async retry<T>(idempotent: boolean, send: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await send();
+            } catch (error) {
+                const delay = this.retryOptions
+                    ? computeRetryDelay(error, attempt, this.retryOptions, idempotent)
+                    : null;
+                if (delay === null) throw error;
+                await sleep(delay);
+            }
+        }
     }
 
     /**
@@ -112,7 +624,21 @@ export class GitHubAPI {
             }
             throw authError;
         }
-        throw error;
+        throw this.strict ? toGitHubAPIError(error) : error;
+    }
+
+    /**
+     * Handle a failed operation. In strict mode the error is thrown as a typed
+     * GitHubAPIError; otherwise the method's sentinel value is returned.
+     */
+    private fail<T>(error: unknown, fallback: T): T {
+        if (!this.strict) return fallback;
+
+        const apiError = toGitHubAPIError(error);
+        if (apiError instanceof AuthenticationError && this.onAuthError) {
+            this.onAuthError(apiError);
+        }
+        throw apiError;
     }
 
     /**
@@ -124,11 +650,29 @@ export class GitHubAPI {
             return false;
         }
 
-        this.graphqlWithAuth = graphql.defaults({
+        this.graphqlWithAuth = this.withRetry(graphql.defaults({
+            baseUrl: getGraphQLBaseUrl(this.host),
             headers: {
                 authorization: `token ${token}`,
             },
-        });
+            request: {
+                // Observe rate-limit headers on every response, including errors,
+                // plus the query cost when the query selected `rateLimit { cost }`.
+                // Only those bodies are read twice; other responses stream through.
+                fetch: async (url: string, init: RequestInit) => {
+                    const response = await fetch(url, init);
+                    const selectsCost = typeof init.body === 'string' && init.body.includes('rateLimit');
+                    const cost = response.ok && selectsCost
+                        ? parseRateLimitCost(await response.clone().json().catch(() => null))
+                        : null;
+                    const info = parseRateLimitHeaders(response.headers, cost);
+                    if (info) this.updateRateLimit(info);
+                    return response;
+                },
+            },
+        }));
+        const graphqlWithAuth = this.graphqlWithAuth;
+        this.batcher = new GraphQLBatcher((query, variables) => graphqlWithAuth(query, variables));
 
         try {
             const response: { viewer: { login: string } } =
@@ -137,6 +681,7 @@ export class GitHubAPI {
             return true;
         } catch {
             this.graphqlWithAuth = null;
+            this.batcher = null;
             return false;
         }
     }
@@ -153,860 +698,2728 @@ export class GitHubAPI {
     }
 
     /**
-     * Get projects linked to a repository
+     * Send a REST API request and parse the JSON response.
+     * Non-2xx responses throw the matching GitHubAPIError. Requests follow the
+     * same retry policy and rate-limit tracking as GraphQL. Only GET and PUT
+     * are safe to repeat after a gateway error: a retried POST could create a
+     * duplicate, and a DELETE or renaming PATCH that was applied before the 502
+     * would fail on the retry. Those are only retried when rate limited.
      */
-    async getProjects(repo: RepoInfo): Promise<Project[]> {
-        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
-
-        try {
-            const response: {
-                repository: {
-                    projectsV2: {
-                        nodes: Array<{
-                            id: string;
-                            title: string;
-                            number: number;
-                            url: string;
-                        }>;
-                    };
-                } | null;
-            } = await this.graphqlWithAuth(queries.REPOSITORY_PROJECTS_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
+    private async restRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+        const token = await this.getToken();
+
+        return this.retry(method === 'GET' || method === 'PUT', async () => {
+            const response = await fetch(`${getRestApiUrl(this.host)}${path}`, {
+                method,
+                headers: {
+                    'Authorization': `token ${token}`,
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/vnd.github.v3+json',
+                },
+                body: body === undefined ? undefined : JSON.stringify(body),
             });
 
-            if (!response.repository) {
-                throw new Error(`Repository not found: ${repo.owner}/${repo.name}`);
-            }
+            const info = parseRateLimitHeaders(response.headers);
+            if (info) this.updateRateLimit(info);
 
-            return response.repository.projectsV2.nodes;
-        } catch (error) {
-            // Check for NOT_FOUND error type
-            if (error && typeof error === 'object' && 'errors' in error) {
-                const gqlError = error as { errors?: Array<{ type?: string; message?: string }> };
-                const notFound = gqlError.errors?.find(e => e.type === 'NOT_FOUND');
-                if (notFound) {
-                    throw new Error(`Repository not found: ${repo.owner}/${repo.name}`);
-                }
+            if (!response.ok) {
+                throw errorFromStatus(
+                    response.status,
+                    `${method} ${path} failed: ${response.status} ${response.statusText}`,
+                    response.headers
+                );
             }
-            this.handleAuthError(error);
-        }
+            return response.status === 204 ? (undefined as T) : await response.json() as T;
+        });
     }
 
     /**
-     * Get items from a project
+     * Query the current rate-limit budget, including the cost of the query itself
      */
-    async getProjectItems(projectId: string, projectTitle: string): Promise<ProjectItem[]> {
+    async getRateLimit(): Promise<RateLimitInfo | null> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
-        // First, get the status field to build a status order map
-        const statusField = await this.getStatusField(projectId);
-        const statusOrderMap = new Map<string, number>();
-        if (statusField) {
-            statusField.options.forEach((opt, idx) => {
-                statusOrderMap.set(opt.name.toLowerCase(), idx);
-            });
-        }
-
-        const response: {
-            node: {
-                items: {
-                    nodes: Array<{
-                        id: string;
-                        fieldValues: {
-                            nodes: Array<{
-                                __typename: string;
-                                name?: string;
-                                text?: string;
-                                number?: number;
-                                date?: string;
-                                title?: string;
-                                field?: { name: string };
-                            }>;
-                        };
-                        content: {
-                            __typename: string;
-                            title?: string;
-                            number?: number;
-                            url?: string;
-                            state?: string;
-                            merged?: boolean;
-                            issueType?: { name: string } | null;
-                            assignees?: {
-                                nodes: Array<{ login: string }>;
-                            };
-                            labels?: {
-                                nodes: Array<{ name: string; color: string }>;
-                            };
-                            repository?: { name: string };
-                        } | null;
-                    }>;
+        try {
+            const response: {
+                rateLimit: {
+                    limit: number;
+                    cost: number;
+                    remaining: number;
+                    used: number;
+                    resetAt: string;
                 };
-            };
-        } = await this.graphqlWithAuth(queries.PROJECT_ITEMS_QUERY, { projectId });
-
-        return response.node.items.nodes
-            .filter(item => item.content)
-            .map(item => {
-                const content = item.content!;
-
-                // Extract all field values into a map
-                const fields: Record<string, string> = {};
-                for (const fv of item.fieldValues.nodes) {
-                    const fieldName = fv.field?.name;
-                    if (!fieldName) continue;
-
-                    if (fv.__typename === 'ProjectV2ItemFieldSingleSelectValue' && fv.name) {
-                        fields[fieldName] = fv.name;
-                    } else if (fv.__typename === 'ProjectV2ItemFieldTextValue' && fv.text) {
-                        fields[fieldName] = fv.text;
-                    } else if (fv.__typename === 'ProjectV2ItemFieldNumberValue' && fv.number !== undefined) {
-                        fields[fieldName] = fv.number.toString();
-                    } else if (fv.__typename === 'ProjectV2ItemFieldDateValue' && fv.date) {
-                        fields[fieldName] = fv.date;
-                    } else if (fv.__typename === 'ProjectV2ItemFieldIterationValue' && fv.title) {
-                        fields[fieldName] = fv.title;
-                    }
-                }
-
-                let type: 'issue' | 'pull_request' | 'draft' = 'draft';
-                if (content.__typename === 'Issue') type = 'issue';
-                else if (content.__typename === 'PullRequest') type = 'pull_request';
-
-                const status = fields['Status'] || null;
-                const statusIndex = status
-                    ? (statusOrderMap.get(status.toLowerCase()) ?? 999)
-                    : 999;
-
-                // Determine issue/PR state
-                let state: 'open' | 'closed' | 'merged' | null = null;
-                if (content.state) {
-                    if (content.merged) {
-                        state = 'merged';
-                    } else if (content.state === 'OPEN') {
-                        state = 'open';
-                    } else {
-                        state = 'closed';
-                    }
-                }
+            } = await this.graphqlWithAuth(queries.RATE_LIMIT_QUERY);
 
-                return {
-                    id: item.id,
-                    title: content.title || 'Untitled',
-                    number: content.number || null,
-                    type,
-                    issueType: content.issueType?.name || null,
-                    status,
-                    statusIndex,
-                    state,
-                    assignees: content.assignees?.nodes.map(a => a.login) || [],
-                    labels: content.labels?.nodes || [],
-                    repository: content.repository?.name || null,
-                    url: content.url || null,
-                    projectId,
-                    projectTitle,
-                    fields,
-                };
-            });
+            const info: RateLimitInfo = {
+                ...response.rateLimit,
+                resetAt: new Date(response.rateLimit.resetAt),
+            };
+            this.updateRateLimit(info);
+            return info;
+        } catch (error) {
+            return this.fail(error, null);
+        }
     }
 
     /**
-     * Get the Status field info for a project
+     * Get a user's node ID by login.
+     * Lookups started in the same tick are sent as a single query.
      */
-    async getStatusField(projectId: string): Promise<StatusField | null> {
-        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
-
-        const response: {
-            node: {
-                fields: {
-                    nodes: Array<{
-                        __typename: string;
-                        id: string;
-                        name: string;
-                        options?: Array<{ id: string; name: string }>;
-                    }>;
-                };
-            };
-        } = await this.graphqlWithAuth(queries.PROJECT_FIELDS_QUERY, { projectId });
+    async getUserId(login: string): Promise<string | null> {
+        if (!this.batcher) throw new Error('Not authenticated');
 
-        const statusField = response.node.fields.nodes.find(
-            f => f.__typename === 'ProjectV2SingleSelectField' && f.name === 'Status'
-        );
+        try {
+            return await this.batcher.load(userIdLookup(login));
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
 
-        if (!statusField || !statusField.options) return null;
+    /**
+     * Get an issue's node ID. Returns null for pull request numbers.
+     * Lookups started in the same tick are sent as a single query.
+     */
+    async getIssueNodeId(repo: RepoInfo, issueNumber: number): Promise<string | null> {
+        return this.getNodeId(repo, issueNumber, 'issue');
+    }
 
-        return {
-            fieldId: statusField.id,
-            options: statusField.options,
-        };
+    /**
+     * Get a pull request's node ID. Returns null for issue numbers.
+     * Lookups started in the same tick are sent as a single query.
+     */
+    async getPullRequestNodeId(repo: RepoInfo, prNumber: number): Promise<string | null> {
+        return this.getNodeId(repo, prNumber, 'pullRequest');
     }
 
     /**
-     * Get project views
+     * Get the node ID of an issue or pull request by number, through the given lookup
      */
-    async getProjectViews(projectId: string): Promise<Array<{ name: string; filter: string | null }>> {
-        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+    private async getNodeId(repo: RepoInfo, number: number, kind: IssueLookupKind): Promise<string | null> {
+        if (!this.batcher) throw new Error('Not authenticated');
 
         try {
-            const response: {
-                node: {
-                    views: {
-                        nodes: Array<{
-                            name: string;
-                            filter: string | null;
-                        }>;
-                    };
-                };
-            } = await this.graphqlWithAuth(queries.PROJECT_VIEWS_QUERY, { projectId });
-
-            return response.node.views.nodes;
-        } catch {
-            return [];
+            const issue = await this.batcher.load(issueLookup(repo, number, kind));
+            return issue?.id ?? null;
+        } catch (error) {
+            return this.fail(error, null);
         }
     }
 
     /**
-     * Update an item's status
+     * Get an issue or pull request's body without loading labels and comments.
+     * Lookups started in the same tick are sent as a single query.
      */
-    async updateItemStatus(
-        projectId: string,
-        itemId: string,
-        fieldId: string,
-        optionId: string
-    ): Promise<boolean> {
-        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+    async getIssueBody(repo: RepoInfo, issueNumber: number): Promise<string | null> {
+        if (!this.batcher) throw new Error('Not authenticated');
 
         try {
-            await this.graphqlWithAuth(queries.UPDATE_ITEM_STATUS_MUTATION, {
-                projectId,
-                itemId,
-                fieldId,
-                optionId,
-            });
-            return true;
-        } catch {
-            return false;
+            const issue = await this.batcher.load(issueLookup(repo, issueNumber));
+            return issue?.body ?? null;
+        } catch (error) {
+            return this.fail(error, null);
         }
     }
 
     /**
-     * Find an item by issue number across all projects for this repo
+     * Get a label's node ID by name.
+     * Lookups started in the same tick are sent as a single query.
      */
-    async findItemByNumber(repo: RepoInfo, issueNumber: number): Promise<ProjectItem | null> {
-        const projects = await this.getProjects(repo);
+    async getLabelId(repo: RepoInfo, labelName: string): Promise<string | null> {
+        if (!this.batcher) throw new Error('Not authenticated');
 
-        for (const project of projects) {
-            const items = await this.getProjectItems(project.id, project.title);
-            const item = items.find(i => i.number === issueNumber);
-            if (item) return item;
+        try {
+            return await this.batcher.load(labelIdLookup(repo, labelName));
+        } catch (error) {
+            return this.fail(error, null);
         }
-
-        return null;
     }
 
     /**
-     * Get all fields for a project
+     * Get projects linked to a repository
      */
-    async getProjectFields(projectId: string): Promise<Array<{
-        id: string;
-        name: string;
-        type: string;
-        options?: Array<{ id: string; name: string }>;
-    }>> {
+    async getProjects(repo: RepoInfo): Promise<Project[]> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
-        const response: {
-            node: {
-                fields: {
-                    nodes: Array<{
-                        __typename: string;
-                        id: string;
-                        name: string;
-                        options?: Array<{ id: string; name: string }>;
-                    }>;
-                };
-            };
-        } = await this.graphqlWithAuth(queries.PROJECT_FIELDS_QUERY, { projectId });
-
-        return response.node.fields.nodes.map(f => ({
-            id: f.id,
-            name: f.name,
-            type: f.__typename.replace('ProjectV2', '').replace('Field', ''),
-            options: f.options,
-        }));
-    }
+        const graphqlWithAuth = this.graphqlWithAuth;
 
-    /**
-     * Set a field value on a project item
-     */
-    async setFieldValue(
+        try {
+            return await this.cached('projects', `${repo.owner}/${repo.name}`, async () => {
+                const response: {
+                    repository: {
+                        projectsV2: {
+                            nodes: Array<{
+                                id: string;
+                                title: string;
+                                number: number;
+                                url: string;
+                            }>;
+                        };
+                    } | null;
+                } = await graphqlWithAuth(queries.REPOSITORY_PROJECTS_QUERY, {
+                    owner: repo.owner,
+                    name: repo.name,
+                });
+
+                if (!response.repository) {
+                    throw new NotFoundError(`Repository not found: ${repo.owner}/${repo.name}`);
+                }
+
+                return response.repository.projectsV2.nodes;
+            });
+        } catch (error) {
+            // Check for NOT_FOUND error type
+            if (error && typeof error === 'object' && 'errors' in error) {
+                const gqlError = error as { errors?: Array<{ type?: string; message?: string }> };
+                const notFound = gqlError.errors?.find(e => e.type === 'NOT_FOUND');
+                if (notFound) {
+                    throw new NotFoundError(`Repository not found: ${repo.owner}/${repo.name}`, { cause: error });
+                }
+            }
+            this.handleAuthError(error);
+        }
+    }
+
+    /**
+     * List projects owned by an organization.
+     * Closed projects are skipped unless `includeClosed` is set.
+     */
+    async listOrgProjects(org: string, options: { includeClosed?: boolean } = {}): Promise<Project[]> {
+        return this.listOwnerProjects('organization', org, options.includeClosed ?? false);
+    }
+
+    /**
+     * List projects owned by a user.
+     * Closed projects are skipped unless `includeClosed` is set.
+     */
+    async listUserProjects(login: string, options: { includeClosed?: boolean } = {}): Promise<Project[]> {
+        return this.listOwnerProjects('user', login, options.includeClosed ?? false);
+    }
+
+    /**
+     * Get a project by owner and number, e.g. from a config file.
+     * Works for organization and user projects that aren't linked to any repository.
+     */
+    async getProjectByConfig(config: ProjectConfig): Promise<Project | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const ownerKey = config.type === 'organization' ? 'organization' : 'user';
+
+        try {
+            const response: {
+                organization?: { projectV2: (Project & { closed: boolean }) | null } | null;
+                user?: { projectV2: (Project & { closed: boolean }) | null } | null;
+            } = await this.graphqlWithAuth(
+                config.type === 'organization' ? queries.ORGANIZATION_PROJECT_QUERY : queries.USER_PROJECT_QUERY,
+                { login: config.owner, number: config.projectNumber }
+            );
+
+            const project = response[ownerKey]?.projectV2;
+            if (!project) {
+                return this.fail(
+                    new NotFoundError(`Project not found: ${config.owner} #${config.projectNumber}`),
+                    null
+                );
+            }
+
+            return { id: project.id, title: project.title, number: project.number, url: project.url };
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Page through an organization's or user's projects
+     */
+    private async listOwnerProjects(
+        type: ProjectConfig['type'],
+        login: string,
+        includeClosed: boolean
+    ): Promise<Project[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const graphqlWithAuth = this.graphqlWithAuth;
+        const query = type === 'organization' ? queries.ORGANIZATION_PROJECTS_QUERY : queries.USER_PROJECTS_QUERY;
+
+        try {
+            const projects = await this.cached('projects', `${type}:${login}`, async () => {
+                const all: Array<Project & { closed: boolean }> = [];
+                let cursor: string | null = null;
+
+                do {
+                    const response: {
+                        organization?: { projectsV2: Connection<Project & { closed: boolean }> } | null;
+                        user?: { projectsV2: Connection<Project & { closed: boolean }> } | null;
+                    } = await graphqlWithAuth(query, { login, cursor });
+
+                    const owner = response[type];
+                    if (!owner) {
+                        throw new NotFoundError(`${type === 'organization' ? 'Organization' : 'User'} not found: ${login}`);
+                    }
+
+                    all.push(...owner.projectsV2.nodes);
+                    cursor = owner.projectsV2.pageInfo.hasNextPage ? owner.projectsV2.pageInfo.endCursor : null;
+                } while (cursor);
+
+                return all;
+            });
+
+            return projects
+                .filter(p => includeClosed || !p.closed)
+                .map(({ id, title, number, url }) => ({ id, title, number, url }));
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Get all items from a project, following pagination until every page is loaded.
+     * Pass `archived: true` to get archived items instead of active ones.
+     */
+    async getProjectItems(
         projectId: string,
-        itemId: string,
-        fieldId: string,
-        value: { text?: string; number?: number; singleSelectOptionId?: string }
+        projectTitle: string,
+        options: ProjectItemsOptions = {}
+    ): Promise<ProjectItem[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            return await this.collectProjectItems(projectId, projectTitle, options);
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Stream items from a project one page at a time.
+     * Use this instead of getProjectItems() for large projects to avoid
+     * holding every item in memory. Pass `archived: true` for archived items,
+     * and `includeHierarchy: true` to load parents and sub-issue progress.
+     * Outside strict mode a failure ends the stream early.
+     */
+    async *iterateProjectItems(
+        projectId: string,
+        projectTitle: string,
+        options: ProjectItemsOptions = {}
+    ): AsyncGenerator<ProjectItem> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            yield* this.fetchProjectItems(projectId, projectTitle, options);
+        } catch (error) {
+            this.fail(error, undefined);
+        }
+    }
+
+    /**
+     * Load every item from a project, throwing on failure
+     */
+    private async collectProjectItems(
+        projectId: string,
+        projectTitle: string,
+        options: ProjectItemsOptions
+    ): Promise<ProjectItem[]> {
+        const items: ProjectItem[] = [];
+        for await (const item of this.fetchProjectItems(projectId, projectTitle, options)) {
+            items.push(item);
+        }
+        return items;
+    }
+
+    /**
+     * Page through a project's items, throwing on failure
+     */
+    private async *fetchProjectItems(
+        projectId: string,
+        projectTitle: string,
+        options: ProjectItemsOptions
+    ): AsyncGenerator<ProjectItem> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        // Serve from cache when item caching is enabled. Archived and active listings are cached apart.
+        const cacheItems = this.cacheStore !== null && this.cacheTtl.projectItems > 0;
+        const cacheKey = this.cacheKey('projectItems', `${projectId}:${options.archived ? 'archived' : 'active'}`) +
+            (options.includeHierarchy ? ':hierarchy' : '');
+        if (cacheItems) {
+            const hit = await this.cacheStore!.get<ProjectItem[]>(cacheKey);
+            if (hit) {
+                yield* hit;
+                return;
+            }
+        }
+        const loaded: ProjectItem[] = [];
+
+        const statusField = await this.fetchStatusField(projectId);
+
+        let cursor: string | null = null;
+        let position = 0;
+        do {
+            const response: {
+                node: {
+                    items: {
+                        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+                        nodes: RawProjectItem[];
+                    };
+                };
+            } = await this.graphqlWithAuth(queries.PROJECT_ITEMS_QUERY, {
+                projectId,
+                cursor,
+            });
+
+            // The items connection can't filter, so archived items are split out here
+            const nodes = response.node.items.nodes.filter(item =>
+                (item.isArchived ?? false) === (options.archived ?? false)
+            );
+            if (options.includeHierarchy) {
+                await this.loadItemHierarchy(nodes);
+            }
+
+            for (const item of nodes) {
+                // Count every node so positions match project order, even for skipped items
+                const itemPosition = position++;
+                if (!item.content) continue;
+                await this.completeNestedConnections(projectId, item);
+                const normalized = normalizeProjectItem(item, projectId, projectTitle, statusField);
+                // Archived items have no place in the project's order
+                if (!options.archived) normalized.position = itemPosition;
+                if (cacheItems) loaded.push(normalized);
+                yield normalized;
+            }
+
+            const { pageInfo } = response.node.items;
+            cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+        } while (cursor);
+
+        if (cacheItems) {
+            await this.cacheStore!.set(cacheKey, loaded, this.cacheTtl.projectItems);
+        }
+    }
+
+    /**
+     * Fetch a single raw project item with its owning project.
+     * Returns null if the node does not exist or is not a project item.
+     */
+    private async fetchRawProjectItem(
+        itemId: string
+    ): Promise<RawProjectItemWithProject | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const response: {
+            node: Partial<RawProjectItemWithProject> | null;
+        } = await this.graphqlWithAuth(queries.PROJECT_ITEM_QUERY, { itemId });
+
+        const node = response.node;
+        if (!node?.project || !node.id || !node.fieldValues) return null;
+        return node as RawProjectItemWithProject;
+    }
+
+    /**
+     * Get a single project item by its node ID
+     */
+    async getProjectItem(itemId: string): Promise<ProjectItem | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const item = await this.fetchRawProjectItem(itemId);
+            if (!item || !item.content) {
+                return this.fail(new NotFoundError(`Project item not found: ${itemId}`), null);
+            }
+
+            await this.completeNestedConnections(item.project.id, item);
+            const statusField = await this.fetchStatusField(item.project.id);
+            return normalizeProjectItem(item, item.project.id, item.project.title, statusField);
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Get every active project item for an issue or pull request, with current field values.
+     * Reads the issue's own projectItems connection in a single query instead of
+     * scanning projects.
+     */
+    async getIssueProjectItems(repo: RepoInfo, issueNumber: number): Promise<ProjectItem[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            return await this.fetchIssueProjectItems(repo, issueNumber);
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Read an issue's active project items, throwing on failure
+     * (NotFoundError if the issue or pull request doesn't exist)
+     */
+    private async fetchIssueProjectItems(repo: RepoInfo, issueNumber: number): Promise<ProjectItem[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const response: {
+            repository: {
+                issueOrPullRequest: { projectItems: { nodes: RawProjectItemWithProject[] } } | null;
+            } | null;
+        } = await this.graphqlWithAuth(queries.ISSUE_PROJECT_ITEMS_QUERY, {
+            owner: repo.owner,
+            name: repo.name,
+            number: issueNumber,
+        });
+
+        const content = response.repository?.issueOrPullRequest;
+        if (!content) {
+            throw new NotFoundError(`Issue or pull request not found: ${repo.owner}/${repo.name}#${issueNumber}`);
+        }
+
+        return this.normalizeContentProjectItems(content.projectItems.nodes);
+    }
+
+    /**
+     * Get every active project item for an issue or pull request, by the content's node ID.
+     * Reads the content's own projectItems connection instead of scanning projects.
+     */
+    async getProjectItemsForContent(contentId: string): Promise<ProjectItem[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const response: {
+                node: { projectItems?: { nodes: RawProjectItemWithProject[] } } | null;
+            } = await this.graphqlWithAuth(queries.CONTENT_PROJECT_ITEMS_QUERY, { contentId });
+
+            if (!response.node?.projectItems) {
+                return this.fail(new NotFoundError(`Issue or pull request not found: ${contentId}`), []);
+            }
+
+            return await this.normalizeContentProjectItems(response.node.projectItems.nodes);
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Normalize project items read from an issue's projectItems connection
+     */
+    private async normalizeContentProjectItems(nodes: RawProjectItemWithProject[]): Promise<ProjectItem[]> {
+        const items: ProjectItem[] = [];
+        // Look up each project's status field once, however many items share it
+        const statusFields = new Map<string, Promise<StatusField | null>>();
+        for (const item of nodes) {
+            if (!item.content) continue;
+            await this.completeNestedConnections(item.project.id, item);
+            let statusFieldLookup = statusFields.get(item.project.id);
+            if (!statusFieldLookup) {
+                statusFieldLookup = this.fetchStatusField(item.project.id);
+                statusFields.set(item.project.id, statusFieldLookup);
+            }
+            const statusField = await statusFieldLookup;
+            items.push(normalizeProjectItem(item, item.project.id, item.project.title, statusField));
+        }
+        return items;
+    }
+
+    /**
+     * Load the parent and sub-issue progress of the issues among raw items,
+     * in one query. Mutates the raw items in place.
+     */
+    private async loadItemHierarchy(items: RawProjectItem[]): Promise<void> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const ids = items
+            .filter(item => item.content?.__typename === 'Issue' && item.content.id)
+            .map(item => item.content!.id!);
+        if (ids.length === 0) return;
+
+        const response: {
+            nodes: Array<{ id?: string; parent: RawLinkedIssue | null; subIssuesSummary: SubIssueProgress } | null>;
+        } = await this.graphqlWithAuth(queries.ISSUES_HIERARCHY_SUMMARY_QUERY, { ids });
+
+        const byId = new Map(response.nodes.filter(node => node?.id).map(node => [node!.id!, node!]));
+        for (const item of items) {
+            const hierarchy = item.content?.id ? byId.get(item.content.id) : undefined;
+            if (hierarchy) {
+                item.content!.parent = hierarchy.parent;
+                item.content!.subIssuesSummary = hierarchy.subIssuesSummary;
+            }
+        }
+    }
+
+    /**
+     * Load the rest of any nested connection (field values, assignees, labels)
+     * that was truncated by the page sizes in PROJECT_ITEMS_QUERY.
+     * Mutates the raw item in place so normalization sees complete data.
+     */
+    private async completeNestedConnections(projectId: string, item: RawProjectItem): Promise<void> {
+        const connections: NestedPaginationEvent['connections'] = [];
+        const content = item.content;
+
+        if (item.fieldValues.pageInfo.hasNextPage) {
+            item.fieldValues.nodes.push(...await this.fetchRemainingNodes<RawFieldValue>(
+                queries.PROJECT_ITEM_FIELD_VALUES_QUERY,
+                item.id,
+                'fieldValues',
+                item.fieldValues.pageInfo.endCursor
+            ));
+            connections.push('fieldValues');
+        }
+
+        if (content?.id && content.assignees?.pageInfo.hasNextPage) {
+            content.assignees.nodes.push(...await this.fetchRemainingNodes<{ login: string }>(
+                queries.CONTENT_ASSIGNEES_QUERY,
+                content.id,
+                'assignees',
+                content.assignees.pageInfo.endCursor
+            ));
+            connections.push('assignees');
+        }
+
+        if (content?.id && content.labels?.pageInfo.hasNextPage) {
+            content.labels.nodes.push(...await this.fetchRemainingNodes<{ name: string; color: string }>(
+                queries.CONTENT_LABELS_QUERY,
+                content.id,
+                'labels',
+                content.labels.pageInfo.endCursor
+            ));
+            connections.push('labels');
+        }
+
+        if (connections.length > 0 && this.onNestedPagination) {
+            this.onNestedPagination({ projectId, itemId: item.id, connections });
+        }
+    }
+
+    /**
+     * Follow a nested connection on a single node from the given cursor to its last page
+     */
+    private async fetchRemainingNodes<T>(
+        query: string,
+        id: string,
+        connection: 'fieldValues' | 'assignees' | 'labels',
+        cursor: string | null
+    ): Promise<T[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const nodes: T[] = [];
+        while (cursor) {
+            const response: {
+                node: Partial<Record<typeof connection, Connection<T>>> | null;
+            } = await this.graphqlWithAuth(query, { id, cursor });
+
+            const page = response.node?.[connection];
+            if (!page) break;
+
+            nodes.push(...page.nodes);
+            cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+        }
+        return nodes;
+    }
+
+    /**
+     * Fetch the raw field definitions for a project (cached as `projectFields`)
+     */
+    private async fetchProjectFields(projectId: string): Promise<RawProjectField[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+        const graphqlWithAuth = this.graphqlWithAuth;
+
+        return this.cached('projectFields', projectId, async () => {
+            const fields: RawProjectField[] = [];
+            let cursor: string | null = null;
+            do {
+                const response: {
+                    node: {
+                        fields: Connection<RawProjectField>;
+                    };
+                } = await graphqlWithAuth(queries.PROJECT_FIELDS_QUERY, { projectId, cursor });
+
+                fields.push(...response.node.fields.nodes);
+                const { pageInfo } = response.node.fields;
+                cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+            } while (cursor);
+
+            return fields;
+        });
+    }
+
+    /**
+     * Use a specific field as the status field for a project, by field ID or name.
+     * Overrides the `statusFields` / `defaultStatusField` options.
+     * Drops the project's cached items, whose status was read from the previous field.
+     */
+    async setStatusField(projectId: string, ref: FieldRef): Promise<void> {
+        this.statusFieldRefs[projectId] = ref;
+        await this.invalidate('projectItems', projectId);
+    }
+
+    /**
+     * Get the Status field info for a project.
+     * Uses the field configured for this project, falling back to a
+     * single-select field named `defaultStatusField` ('Status' by default).
+     */
+    async getStatusField(projectId: string): Promise<StatusField | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            return await this.fetchStatusField(projectId);
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Get any single-select field with its options in column order.
+     * Fields are matched by ID, or by name case-insensitively.
+     */
+    async getSingleSelectField(projectId: string, ref: FieldRef): Promise<StatusField | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            return await this.fetchSingleSelectField(projectId, ref);
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Look up a project's status field, throwing if the fields can't be read
+     */
+    private async fetchStatusField(projectId: string): Promise<StatusField | null> {
+        const ref = this.statusFieldRefs[projectId] ?? { name: this.defaultStatusField };
+        return this.fetchSingleSelectField(projectId, ref);
+    }
+
+    /**
+     * Look up a single-select field, throwing if the fields can't be read
+     */
+    private async fetchSingleSelectField(projectId: string, ref: FieldRef): Promise<StatusField | null> {
+        const fields = await this.fetchProjectFields(projectId);
+
+        const field = fields.find(f =>
+            f.__typename === 'ProjectV2SingleSelectField' &&
+            ('id' in ref ? f.id === ref.id : f.name.toLowerCase() === ref.name.toLowerCase())
+        );
+
+        if (!field || !field.options) return null;
+
+        return {
+            fieldId: field.id,
+            name: field.name,
+            options: field.options,
+        };
+    }
+
+    /**
+     * Get project views with their layout, grouping, sorting and filter
+     */
+    async getProjectViews(projectId: string): Promise<ProjectV2View[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const response: {
+                node: {
+                    views: {
+                        nodes: ProjectV2View[];
+                    };
+                };
+            } = await this.graphqlWithAuth(queries.PROJECT_VIEWS_QUERY, { projectId });
+
+            return response.node.views.nodes;
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Load a saved view and the project's items, and render the view the way
+     * GitHub shows it: filtered, sorted and grouped into swimlanes and columns.
+     *
+     * @param view The view's number (as in the project URL) or name
+     */
+    async renderProjectView(
+        projectId: string,
+        projectTitle: string,
+        view: number | string,
+        options: RenderViewOptions = {}
+    ): Promise<RenderedView | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const views = await this.getProjectViews(projectId);
+            const match = views.find(v =>
+                typeof view === 'number' ? v.number === view : v.name.toLowerCase() === view.toLowerCase()
+            );
+            if (!match) {
+                return this.fail(new NotFoundError(`View not found: ${view}`), null);
+            }
+
+            // Parents are only loaded on request, so load them when the view uses them
+            const viewFields = [
+                ...(match.groupByFields?.nodes ?? []),
+                ...(match.verticalGroupByFields?.nodes ?? []),
+                ...(match.sortByFields?.nodes.map(sort => sort.field) ?? []),
+            ];
+            const includeHierarchy = /parent-issue:/i.test(match.filter ?? '') ||
+                viewFields.some(field => field.name.toLowerCase() === 'parent issue');
+
+            const [items, fields, statusField] = await Promise.all([
+                this.collectProjectItems(projectId, projectTitle, { includeHierarchy }),
+                this.fetchProjectFields(projectId),
+                this.fetchStatusField(projectId),
+            ]);
+
+            const fieldOptions: Record<string, Array<{ name: string }>> = {};
+            const iterations: Record<string, ProjectIteration[]> = {};
+            for (const field of fields) {
+                if (field.options) fieldOptions[field.name] = field.options;
+                const fieldIterations = listIterations(field);
+                if (fieldIterations) {
+                    fieldOptions[field.name] = fieldIterations.map(it => ({ name: it.title }));
+                    iterations[field.name] = fieldIterations;
+                }
+            }
+
+            return renderView(match, items, {
+                defaultColumnField: statusField?.name,
+                ...options,
+                fieldOptions: { ...fieldOptions, ...options.fieldOptions },
+                filterContext: { username: this.username, iterations, ...options.filterContext },
+            });
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Update an item's status
+     */
+    async updateItemStatus(
+        projectId: string,
+        itemId: string,
+        fieldId: string,
+        optionId: string
+    ): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.UPDATE_ITEM_STATUS_MUTATION, {
+                projectId,
+                itemId,
+                fieldId,
+                optionId,
+            });
+            await this.invalidate('projectItems', projectId);
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Find the project item for an issue or PR in this repo.
+     * Reads the issue's project items directly, so same-numbered issues from
+     * other repos in the same project never match. Only projects linked to the
+     * repo are considered; with several, the first one linked wins.
+     * Returns null if the issue doesn't exist. Throws NotFoundError if the
+     * repository doesn't exist, and rethrows other failures even outside strict
+     * mode so a failed lookup isn't mistaken for an item that isn't on a project.
+     */
+    async findItemByNumber(repo: RepoInfo, issueNumber: number): Promise<ProjectItem | null> {
+        const projects = await this.getProjects(repo);
+        if (projects.length === 0) return null;
+
+        let items: ProjectItem[];
+        try {
+            items = await this.fetchIssueProjectItems(repo, issueNumber);
+        } catch (error) {
+            // A missing issue is simply not on any project
+            if (toGitHubAPIError(error) instanceof NotFoundError) return null;
+            this.handleAuthError(error);
+        }
+
+        for (const project of projects) {
+            const item = items.find(i => i.projectId === project.id);
+            if (item) return item;
+        }
+        return null;
+    }
+
+    /**
+     * Get all fields for a project
+     */
+    async getProjectFields(projectId: string): Promise<Array<{
+        id: string;
+        name: string;
+        type: string;
+        /** GraphQL data type, e.g. TEXT, SINGLE_SELECT, ITERATION, or built-ins like TITLE */
+        dataType: string;
+        options?: Array<{ id: string; name: string; color: string; description: string }>;
+        iterations?: ProjectIteration[];
+    }>> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const fields = await this.fetchProjectFields(projectId);
+
+            return fields.map(f => ({
+                id: f.id,
+                name: f.name,
+                type: f.__typename.replace('ProjectV2', '').replace('Field', ''),
+                dataType: f.dataType,
+                options: f.options,
+                iterations: listIterations(f),
+            }));
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Set a field value on a project item.
+     * Supports text, number, single select, date and iteration fields.
+     * Pass `null` to clear the field.
+     */
+    async setFieldValue(
+        projectId: string,
+        itemId: string,
+        fieldId: string,
+        value: FieldValueInput | null
+    ): Promise<boolean> {
+        if (value === null) {
+            return this.clearFieldValue(projectId, itemId, fieldId);
+        }
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.UPDATE_ITEM_FIELD_MUTATION, {
+                projectId,
+                itemId,
+                fieldId,
+                value,
+            });
+            await this.invalidate('projectItems', projectId);
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Clear a field value on a project item (works for every field type)
+     */
+    async clearFieldValue(projectId: string, itemId: string, fieldId: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.CLEAR_ITEM_FIELD_MUTATION, {
+                projectId,
+                itemId,
+                fieldId,
+            });
+            await this.invalidate('projectItems', projectId);
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Create a new issue
+     */
+    async createIssue(
+        repo: RepoInfo,
+        title: string,
+        body?: string
+    ): Promise<{ id: string; number: number } | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            // First get the repository ID
+            const repoResponse: { repository: { id: string } } =
+                await this.graphqlWithAuth(queries.REPOSITORY_ID_QUERY, {
+                    owner: repo.owner,
+                    name: repo.name,
+                });
+
+            const response: {
+                createIssue: {
+                    issue: { id: string; number: number };
+                };
+            } = await this.graphqlWithAuth(queries.CREATE_ISSUE_MUTATION, {
+                repositoryId: repoResponse.repository.id,
+                title,
+                body: body || '',
+            });
+
+            return response.createIssue.issue;
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Add an issue to a project
+     */
+    async addToProject(projectId: string, contentId: string): Promise<string | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const response: {
+                addProjectV2ItemById: { item: { id: string } };
+            } = await this.graphqlWithAuth(queries.ADD_TO_PROJECT_MUTATION, {
+                projectId,
+                contentId,
+            });
+
+            await this.invalidate('projectItems', projectId);
+            return response.addProjectV2ItemById.item.id;
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Archive a project item. Archived items are hidden from views but keep their field values.
+     */
+    async archiveItem(projectId: string, itemId: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.ARCHIVE_ITEM_MUTATION, { projectId, itemId });
+            await this.invalidate('projectItems', projectId);
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Restore an archived project item
+     */
+    async unarchiveItem(projectId: string, itemId: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.UNARCHIVE_ITEM_MUTATION, { projectId, itemId });
+            await this.invalidate('projectItems', projectId);
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Remove an item from a project. The issue or PR itself is kept; draft issues are deleted.
+     */
+    async deleteItem(projectId: string, itemId: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.DELETE_ITEM_MUTATION, { projectId, itemId });
+            await this.invalidate('projectItems', projectId);
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Move a project item directly after another item, or to the top of the project with null
+     */
+    async moveItem(projectId: string, itemId: string, afterItemId: string | null): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.UPDATE_ITEM_POSITION_MUTATION, {
+                projectId,
+                itemId,
+                afterId: afterItemId,
+            });
+            await this.invalidate('projectItems', projectId);
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Move a project item to the top of the project
+     */
+    async moveItemToTop(projectId: string, itemId: string): Promise<boolean> {
+        return this.moveItem(projectId, itemId, null);
+    }
+
+    /**
+     * Place items one after another in the given order, starting after `afterItemId`
+     * (or at the top of the project with null). Moves are packed into aliased
+     * mutations, which GitHub runs in order, so each item lands after the previous one.
+     * Requests go out one at a time and stop at the first failure; items after it
+     * are reported as not moved. Never throws for failed moves: check the results.
+     */
+    async reorderItems(
+        projectId: string,
+        itemIds: string[],
+        afterItemId: string | null = null
+    ): Promise<ReorderReport> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const results: ReorderReport['results'] = itemIds.map(itemId => ({ itemId, success: false }));
+        const moves = itemIds.map((itemId, i) =>
+            itemPositionMutation(projectId, itemId, i === 0 ? afterItemId : itemIds[i - 1])
+        );
+
+        // Chunks must run one after another, since each builds on the previous positions
+        for (let start = 0; start < moves.length; start += 50) {
+            const chunk = moves.slice(start, start + 50);
+            const { query, variables } = buildBulkMutation(chunk);
+
+            let failed = new Map<string, string>();
+            try {
+                await this.graphqlWithAuth(query, variables);
+            } catch (error) {
+                const partial = getFailedAliases(error);
+                if (partial) {
+                    failed = partial;
+                } else {
+                    const message = toGitHubAPIError(error).message;
+                    chunk.forEach((_, i) => failed.set(`m${i}`, message));
+                }
+            }
+
+            chunk.forEach((_, i) => {
+                const error = failed.get(`m${i}`);
+                results[start + i].success = error === undefined;
+                if (error !== undefined) results[start + i].error = error;
+            });
+
+            if (failed.size > 0) {
+                for (const result of results.slice(start + chunk.length)) {
+                    result.error = 'Not moved: an earlier move failed';
+                }
+                break;
+            }
+        }
+
+        const moved = results.filter(r => r.success).length;
+        if (moved > 0) await this.invalidate('projectItems', projectId);
+        return { results, moved };
+    }
+
+    /**
+     * Create a draft issue directly on a project.
+     * Returns null only when the draft was not created.
+     */
+    async createDraftItem(projectId: string, title: string, body?: string): Promise<ProjectItem | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        let item: RawProjectItemWithProject;
+        try {
+            const response: {
+                addProjectV2DraftIssue: { projectItem: RawProjectItemWithProject };
+            } = await this.graphqlWithAuth(queries.ADD_DRAFT_ISSUE_MUTATION, {
+                projectId,
+                title,
+                body: body || '',
+            });
+            item = response.addProjectV2DraftIssue.projectItem;
+        } catch (error) {
+            return this.fail(error, null);
+        }
+
+        return this.normalizeMutatedItem(item);
+    }
+
+    /**
+     * Edit a draft issue's title and/or body
+     */
+    async updateDraftItem(
+        itemId: string,
+        updates: { title?: string; body?: string }
+    ): Promise<ProjectItem | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const item = await this.fetchRawProjectItem(itemId);
+            if (!item) {
+                return this.fail(new NotFoundError(`Project item not found: ${itemId}`), null);
+            }
+            if (item.content?.__typename !== 'DraftIssue' || !item.content.id) {
+                return this.fail(new ValidationError(`Project item ${itemId} is not a draft issue`), null);
+            }
+
+            await this.graphqlWithAuth(queries.UPDATE_DRAFT_ISSUE_MUTATION, {
+                draftIssueId: item.content.id,
+                title: updates.title,
+                body: updates.body,
+            });
+
+            await this.invalidate('projectItems', item.project.id);
+            return this.getProjectItem(itemId);
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Convert a draft issue item into a real issue in the given repository.
+     * The item keeps its place and field values on the project.
+     * Returns null only when the draft was not converted.
+     */
+    async convertDraftToIssue(itemId: string, repo: RepoInfo): Promise<ProjectItem | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        let converted: RawProjectItemWithProject;
+        try {
+            const item = await this.fetchRawProjectItem(itemId);
+            if (!item) {
+                return this.fail(new NotFoundError(`Project item not found: ${itemId}`), null);
+            }
+            if (item.content?.__typename !== 'DraftIssue') {
+                return this.fail(new ValidationError(`Project item ${itemId} is not a draft issue`), null);
+            }
+
+            const repoResponse: { repository: { id: string } | null } =
+                await this.graphqlWithAuth(queries.REPOSITORY_ID_QUERY, {
+                    owner: repo.owner,
+                    name: repo.name,
+                });
+            if (!repoResponse.repository) {
+                return this.fail(new NotFoundError(`Repository not found: ${repo.owner}/${repo.name}`), null);
+            }
+
+            const response: {
+                convertProjectV2DraftIssueItemToIssue: { item: RawProjectItemWithProject };
+            } = await this.graphqlWithAuth(queries.CONVERT_DRAFT_ISSUE_MUTATION, {
+                itemId,
+                repositoryId: repoResponse.repository.id,
+            });
+            converted = response.convertProjectV2DraftIssueItemToIssue.item;
+        } catch (error) {
+            return this.fail(error, null);
+        }
+
+        return this.normalizeMutatedItem(converted);
+    }
+
+    /**
+     * Normalize an item returned in a mutation payload and drop cached item lists.
+     * The mutation has already been applied, so a failed follow-up (truncated
+     * connections, status field, cache) leaves that data out instead of
+     * reporting the call as failed and inviting a retry that creates a duplicate.
+     */
+    private async normalizeMutatedItem(item: RawProjectItemWithProject): Promise<ProjectItem> {
+        let statusField: StatusField | null = null;
+        try {
+            await this.invalidate('projectItems', item.project.id);
+            await this.completeNestedConnections(item.project.id, item);
+            statusField = await this.fetchStatusField(item.project.id);
+        } catch {
+            // Keep what the payload returned
+        }
+        return normalizeProjectItem(item, item.project.id, item.project.title, statusField);
+    }
+
+    /**
+     * Get full issue details including body and comments
+     */
+    async getIssueDetails(repo: RepoInfo, issueNumber: number): Promise<IssueDetails | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const response: {
+                repository: {
+                    issueOrPullRequest: {
+                        __typename: string;
+                        title: string;
+                        body: string;
+                        state: string;
+                        createdAt: string;
+                        author: { login: string } | null;
+                        labels: { nodes: Array<{ name: string; color: string }> };
+                        milestone: MilestoneInfo | null;
+                        comments: {
+                            totalCount: number;
+                            nodes: Array<{
+                                id: string;
+                                url: string;
+                                author: { login: string } | null;
+                                body: string;
+                                createdAt: string;
+                            }>;
+                        };
+                    } | null;
+                };
+            } = await this.graphqlWithAuth(queries.ISSUE_DETAILS_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                number: issueNumber,
+            });
+
+            const issue = response.repository.issueOrPullRequest;
+            if (!issue) {
+                return this.fail(new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`), null);
+            }
+
+            return {
+                title: issue.title,
+                body: issue.body,
+                state: issue.state,
+                type: issue.__typename === 'PullRequest' ? 'pull_request' : 'issue',
+                createdAt: issue.createdAt,
+                author: issue.author?.login || 'unknown',
+                labels: issue.labels.nodes,
+                milestone: issue.milestone,
+                comments: issue.comments.nodes.map(c => ({
+                    id: c.id,
+                    url: c.url,
+                    author: c.author?.login || 'unknown',
+                    body: c.body,
+                    createdAt: c.createdAt,
+                })),
+                totalComments: issue.comments.totalCount,
+            };
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Add a comment to an issue or PR
+     */
+    async addComment(repo: RepoInfo, issueNumber: number, body: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const subjectId = await this.getNodeId(repo, issueNumber, 'issueOrPullRequest');
+            if (!subjectId) {
+                return this.fail(new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`), false);
+            }
+
+            await this.graphqlWithAuth(queries.ADD_COMMENT_MUTATION, { subjectId, body });
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Get every comment on an issue or pull request, following pagination
+     */
+    async getIssueComments(repo: RepoInfo, issueNumber: number): Promise<IssueComment[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const comments: IssueComment[] = [];
+            for await (const comment of this.fetchIssueComments(repo, issueNumber)) {
+                comments.push(comment);
+            }
+            return comments;
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Stream comments on an issue or pull request one page at a time, oldest first.
+     * Outside strict mode a failure ends the stream early.
+     */
+    async *iterateIssueComments(repo: RepoInfo, issueNumber: number): AsyncGenerator<IssueComment> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            yield* this.fetchIssueComments(repo, issueNumber);
+        } catch (error) {
+            this.fail(error, undefined);
+        }
+    }
+
+    /**
+     * Page through an issue's comments, throwing on failure
+     */
+    private async *fetchIssueComments(repo: RepoInfo, issueNumber: number): AsyncGenerator<IssueComment> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        let cursor: string | null = null;
+        do {
+            const response: {
+                repository: {
+                    issueOrPullRequest: { comments: Connection<RawIssueComment> } | null;
+                } | null;
+            } = await this.graphqlWithAuth(queries.ISSUE_COMMENTS_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                number: issueNumber,
+                cursor,
+            });
+
+            const issue = response.repository?.issueOrPullRequest;
+            if (!issue) {
+                throw new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`);
+            }
+
+            for (const comment of issue.comments.nodes) {
+                yield normalizeComment(comment);
+            }
+
+            const { pageInfo } = issue.comments;
+            cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+        } while (cursor);
+    }
+
+    /**
+     * Replace a comment's body. Returns the updated comment.
+     */
+    async editComment(commentId: string, body: string): Promise<IssueComment | null> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const response: {
+                updateIssueComment: { issueComment: RawIssueComment };
+            } = await this.graphqlWithAuth(queries.UPDATE_COMMENT_MUTATION, { id: commentId, body });
+
+            return normalizeComment(response.updateIssueComment.issueComment);
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Delete a comment
+     */
+    async deleteComment(commentId: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.DELETE_COMMENT_MUTATION, { id: commentId });
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * React to an issue, pull request or comment by node ID
+     */
+    async addReaction(subjectId: string, content: ReactionContent): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.ADD_REACTION_MUTATION, { subjectId, content });
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Remove the authenticated user's reaction from an issue, pull request or comment
+     */
+    async removeReaction(subjectId: string, content: ReactionContent): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            await this.graphqlWithAuth(queries.REMOVE_REACTION_MUTATION, { subjectId, content });
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Get repository collaborators (for @ mention suggestions)
+     */
+    async getCollaborators(repo: RepoInfo): Promise<Collaborator[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const graphqlWithAuth = this.graphqlWithAuth;
+
+        try {
+            return await this.cached('collaborators', `${repo.owner}/${repo.name}`, async () => {
+                const response: {
+                    repository: {
+                        collaborators: {
+                            nodes: Array<{ login: string; name: string | null }>;
+                        } | null;
+                        assignableUsers: {
+                            nodes: Array<{ login: string; name: string | null }>;
+                        };
+                    };
+                } = await graphqlWithAuth(queries.COLLABORATORS_QUERY, {
+                    owner: repo.owner,
+                    name: repo.name,
+                });
+
+                const users = response.repository.collaborators?.nodes
+                    || response.repository.assignableUsers.nodes
+                    || [];
+
+                return users.map(u => ({ login: u.login, name: u.name }));
+            });
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Get recent issues (for # reference suggestions)
+     */
+    async getRecentIssues(repo: RepoInfo, limit: number = 20): Promise<IssueReference[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const response: {
+                repository: {
+                    issues: {
+                        nodes: Array<{
+                            number: number;
+                            title: string;
+                            state: string;
+                        }>;
+                    };
+                };
+            } = await this.graphqlWithAuth(queries.RECENT_ISSUES_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                limit,
+            });
+
+            return response.repository.issues.nodes;
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Get the active label name for a user
+     */
+    getActiveLabelName(): string {
+        return `@${this.username}:active`;
+    }
+
+    /**
+     * Ensure a label exists in the repository, create if it doesn't
+     */
+    async ensureLabel(repo: RepoInfo, labelName: string, color: string = '1f883d'): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const checkResponse: {
+                repository: {
+                    label: { id: string } | null;
+                };
+            } = await this.graphqlWithAuth(queries.LABEL_EXISTS_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                labelName,
+            });
+
+            if (checkResponse.repository.label) {
+                return true;
+            }
+
+            // Create the label using REST API. 422 means it was created in the meantime.
+            try {
+                await this.restRequest('POST', `/repos/${repo.owner}/${repo.name}/labels`, {
+                    name: labelName,
+                    color: color,
+                    description: `Active working indicator for ${this.username}`,
+                });
+            } catch (error) {
+                if (!(error instanceof ValidationError && error.status === 422)) throw error;
+            }
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Add a label to an issue
+     */
+    async addLabelToIssue(repo: RepoInfo, issueNumber: number, labelName: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            // Both lookups go out together as one batched query
+            const [issueId, labelId] = await Promise.all([
+                this.getNodeId(repo, issueNumber, 'issueOrPullRequest'),
+                this.getLabelId(repo, labelName),
+            ]);
+
+            if (!issueId) {
+                return this.fail(new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`), false);
+            }
+            if (!labelId) {
+                return this.fail(new NotFoundError(`Label not found: ${labelName}`), false);
+            }
+
+            await this.graphqlWithAuth(queries.ADD_LABELS_MUTATION, {
+                issueId,
+                labelIds: [labelId],
+            });
+
+            await this.invalidate('projectItems');
+
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Remove a label from an issue
+     */
+    async removeLabelFromIssue(repo: RepoInfo, issueNumber: number, labelName: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            // Both lookups go out together as one batched query
+            const [issueId, labelId] = await Promise.all([
+                this.getNodeId(repo, issueNumber, 'issueOrPullRequest'),
+                this.getLabelId(repo, labelName),
+            ]);
+
+            if (!issueId) {
+                return this.fail(new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`), false);
+            }
+            if (!labelId) {
+                return this.fail(new NotFoundError(`Label not found: ${labelName}`), false);
+            }
+
+            await this.graphqlWithAuth(queries.REMOVE_LABELS_MUTATION, {
+                issueId,
+                labelIds: [labelId],
+            });
+
+            await this.invalidate('projectItems');
+
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Find the numbers of all open issues with a specific label
+     */
+    async findIssuesWithLabel(repo: RepoInfo, labelName: string): Promise<number[]> {
+        const issues = await this.listIssuesWithLabels(repo, [labelName]);
+        return issues.map(i => i.number);
+    }
+
+    /**
+     * List every issue that has all of the given labels, following pagination.
+     * Defaults to open issues. Returns no issues when no labels are given.
+     */
+    async listIssuesWithLabels(
+        repo: RepoInfo,
+        labelNames: string[],
+        state: 'open' | 'closed' | 'all' = 'open'
+    ): Promise<IssueReference[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+        // An empty label filter would match every issue in the repo
+        if (labelNames.length === 0) return [];
+
+        try {
+            const wanted = labelNames.map(name => name.toLowerCase());
+            const issues: IssueReference[] = [];
+            let cursor: string | null = null;
+
+            do {
+                const response: {
+                    repository: {
+                        issues: Connection<IssueReference & { labels: { nodes: Array<{ name: string }> } }>;
+                    } | null;
+                } = await this.graphqlWithAuth(queries.ISSUES_WITH_LABEL_QUERY, {
+                    owner: repo.owner,
+                    name: repo.name,
+                    labels: labelNames,
+                    states: state === 'all' ? null : [state.toUpperCase()],
+                    cursor,
+                });
+
+                if (!response.repository) {
+                    return this.fail(new NotFoundError(`Repository not found: ${repo.owner}/${repo.name}`), []);
+                }
+
+                // GitHub matches issues with any of the labels; keep those with all of them
+                const { nodes, pageInfo } = response.repository.issues;
+                for (const { labels, ...issue } of nodes) {
+                    const names = new Set(labels.nodes.map(l => l.name.toLowerCase()));
+                    if (wanted.every(name => names.has(name))) issues.push(issue);
+                }
+                cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+            } while (cursor);
+
+            return issues;
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * List every label in a repository, sorted by name
+     */
+    async listLabels(repo: RepoInfo): Promise<Label[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            return await this.fetchLabels(repo);
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Page through a repository's labels, throwing on failure
+     */
+    private async fetchLabels(repo: RepoInfo): Promise<Label[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const labels: Label[] = [];
+        let cursor: string | null = null;
+
+        do {
+            const response: {
+                repository: { labels: Connection<Label> } | null;
+            } = await this.graphqlWithAuth(queries.LABELS_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                cursor,
+            });
+
+            if (!response.repository) {
+                throw new NotFoundError(`Repository not found: ${repo.owner}/${repo.name}`);
+            }
+
+            const { nodes, pageInfo } = response.repository.labels;
+            labels.push(...nodes);
+            cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+        } while (cursor);
+
+        return labels;
+    }
+
+    /**
+     * Create a label. Fails with ValidationError if it already exists.
+     */
+    async createLabel(repo: RepoInfo, input: LabelInput & { name: string }): Promise<Label | null> {
+        try {
+            const created = await this.restRequest<RestLabel>('POST', `/repos/${repo.owner}/${repo.name}/labels`, {
+                name: input.name,
+                color: input.color?.replace(/^#/, ''),
+                description: input.description,
+            });
+            return normalizeRestLabel(created);
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Update a label's name, color or description
+     */
+    async updateLabel(repo: RepoInfo, labelName: string, input: LabelInput): Promise<Label | null> {
+        try {
+            const updated = await this.restRequest<RestLabel>(
+                'PATCH',
+                `/repos/${repo.owner}/${repo.name}/labels/${encodeURIComponent(labelName)}`,
+                {
+                    new_name: input.name,
+                    color: input.color?.replace(/^#/, ''),
+                    description: input.description,
+                }
+            );
+            await this.invalidate('projectItems');
+            return normalizeRestLabel(updated);
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
+
+    /**
+     * Rename a label, keeping it on every issue that has it
+     */
+    async renameLabel(repo: RepoInfo, labelName: string, newName: string): Promise<Label | null> {
+        return this.updateLabel(repo, labelName, { name: newName });
+    }
+
+    /**
+     * Delete a label, removing it from every issue that has it
+     */
+    async deleteLabel(repo: RepoInfo, labelName: string): Promise<boolean> {
+        try {
+            await this.restRequest(
+                'DELETE',
+                `/repos/${repo.owner}/${repo.name}/labels/${encodeURIComponent(labelName)}`
+            );
+            await this.invalidate('projectItems');
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Replace an issue's labels with exactly the given set in one request.
+     * Labels that don't exist yet are created with a default color.
+     */
+    async setIssueLabels(repo: RepoInfo, issueNumber: number, labelNames: string[]): Promise<boolean> {
+        try {
+            await this.restRequest('PUT', `/repos/${repo.owner}/${repo.name}/issues/${issueNumber}/labels`, {
+                labels: labelNames,
+            });
+            await this.invalidate('projectItems');
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Get available issue types for a repository
+     */
+    async getIssueTypes(repo: RepoInfo): Promise<Array<{ id: string; name: string }>> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            return await this.fetchIssueTypes(repo);
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Load a repository's issue types (cached), throwing on failure
+     */
+    private async fetchIssueTypes(repo: RepoInfo): Promise<Array<{ id: string; name: string }>> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        const graphqlWithAuth = this.graphqlWithAuth;
+
+        return this.cached('issueTypes', `${repo.owner}/${repo.name}`, async () => {
+            const response: {
+                repository: {
+                    issueTypes: {
+                        nodes: Array<{ id: string; name: string }>;
+                    } | null;
+                };
+            } = await graphqlWithAuth(queries.ISSUE_TYPES_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+            });
+
+            return response.repository.issueTypes?.nodes || [];
+        });
+    }
+
+    /**
+     * Set the issue type on an issue
+     */
+    async setIssueType(repo: RepoInfo, issueNumber: number, issueTypeId: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const issueResponse: {
+                repository: {
+                    issue: { id: string } | null;
+                };
+            } = await this.graphqlWithAuth(queries.ISSUE_FOR_UPDATE_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                number: issueNumber,
+            });
+
+            if (!issueResponse.repository.issue) {
+                return this.fail(new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`), false);
+            }
+
+            await this.graphqlWithAuth(queries.UPDATE_ISSUE_TYPE_MUTATION, {
+                issueId: issueResponse.repository.issue.id,
+                issueTypeId,
+            });
+
+            await this.invalidate('projectItems');
+
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Update an issue's body/description
+     */
+    async updateIssueBody(repo: RepoInfo, issueNumber: number, body: string): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const issueId = await this.getIssueNodeId(repo, issueNumber);
+            if (!issueId) {
+                return this.fail(new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`), false);
+            }
+
+            await this.graphqlWithAuth(queries.UPDATE_ISSUE_BODY_MUTATION, { issueId, body });
+
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Update an issue's title and/or body
+     */
+    async updateIssue(
+        repo: RepoInfo,
+        issueNumber: number,
+        updates: { title?: string; body?: string }
+    ): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const issueResponse: {
+                repository: {
+                    issue: { id: string } | null;
+                };
+            } = await this.graphqlWithAuth(queries.ISSUE_FOR_UPDATE_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                number: issueNumber,
+            });
+
+            if (!issueResponse.repository.issue) {
+                return this.fail(new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`), false);
+            }
+
+            await this.graphqlWithAuth(queries.UPDATE_ISSUE_MUTATION, {
+                issueId: issueResponse.repository.issue.id,
+                title: updates.title,
+                body: updates.body,
+            });
+
+            await this.invalidate('projectItems');
+
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Update assignees on an issue
+     */
+    async updateAssignees(
+        repo: RepoInfo,
+        issueNumber: number,
+        assigneeLogins: string[]
     ): Promise<boolean> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
-            await this.graphqlWithAuth(queries.UPDATE_ITEM_FIELD_MUTATION, {
-                projectId,
-                itemId,
-                fieldId,
-                value,
-            });
+            // Get the issue node ID and current assignee IDs
+            const issueResponse: {
+                repository: {
+                    issue: {
+                        id: string;
+                        assignees: { nodes: Array<{ id: string; login: string }> };
+                    } | null;
+                };
+            } = await this.graphqlWithAuth(
+                `query($owner: String!, $name: String!, $number: Int!) {
+                    repository(owner: $owner, name: $name) {
+                        issue(number: $number) {
+                            id
+                            assignees(first: 20) { nodes { id login } }
+                        }
+                    }
+                }`,
+                { owner: repo.owner, name: repo.name, number: issueNumber }
+            );
+
+            if (!issueResponse.repository.issue) {
+                return this.fail(new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`), false);
+            }
+
+            const issueId = issueResponse.repository.issue.id;
+
+            // Get user IDs for the new assignees (batched into one query)
+            const userIds = await Promise.all(assigneeLogins.map(login => this.getUserId(login)));
+            const assigneeIds = userIds.filter((id): id is string => id !== null);
+
+            // Clear existing assignees first
+            const currentAssigneeIds = issueResponse.repository.issue.assignees.nodes.map(a => a.id);
+            if (currentAssigneeIds.length > 0) {
+                await this.graphqlWithAuth(
+                    `mutation($assignableId: ID!, $assigneeIds: [ID!]!) {
+                        removeAssigneesFromAssignable(input: { assignableId: $assignableId, assigneeIds: $assigneeIds }) {
+                            clientMutationId
+                        }
+                    }`,
+                    { assignableId: issueId, assigneeIds: currentAssigneeIds }
+                );
+            }
+
+            // Add new assignees
+            if (assigneeIds.length > 0) {
+                await this.graphqlWithAuth(
+                    `mutation($assignableId: ID!, $assigneeIds: [ID!]!) {
+                        addAssigneesToAssignable(input: { assignableId: $assignableId, assigneeIds: $assigneeIds }) {
+                            clientMutationId
+                        }
+                    }`,
+                    { assignableId: issueId, assigneeIds }
+                );
+            }
+
+            await this.invalidate('projectItems');
             return true;
-        } catch {
-            return false;
+        } catch (error) {
+            return this.fail(error, false);
         }
     }
 
     /**
-     * Create a new issue
+     * Create a pull request from a branch.
+     * The base branch defaults to the repository's default branch.
      */
-    async createIssue(
-        repo: RepoInfo,
-        title: string,
-        body?: string
-    ): Promise<{ id: string; number: number } | null> {
+    async createPullRequest(repo: RepoInfo, input: CreatePullRequestInput): Promise<PullRequest | null> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
-            // First get the repository ID
-            const repoResponse: { repository: { id: string } } =
-                await this.graphqlWithAuth(queries.REPOSITORY_ID_QUERY, {
-                    owner: repo.owner,
-                    name: repo.name,
-                });
+            const repoResponse: {
+                repository: { id: string; defaultBranchRef: { name: string } | null } | null;
+            } = await this.graphqlWithAuth(queries.REPOSITORY_DEFAULT_BRANCH_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+            });
+
+            if (!repoResponse.repository) {
+                return this.fail(new NotFoundError(`Repository not found: ${repo.owner}/${repo.name}`), null);
+            }
+
+            const base = input.base ?? repoResponse.repository.defaultBranchRef?.name;
+            if (!base) {
+                return this.fail(
+                    new ValidationError(`Repository has no default branch: ${repo.owner}/${repo.name}`),
+                    null
+                );
+            }
 
             const response: {
-                createIssue: {
-                    issue: { id: string; number: number };
-                };
-            } = await this.graphqlWithAuth(queries.CREATE_ISSUE_MUTATION, {
+                createPullRequest: { pullRequest: RawPullRequest };
+            } = await this.graphqlWithAuth(queries.CREATE_PULL_REQUEST_MUTATION, {
                 repositoryId: repoResponse.repository.id,
-                title,
-                body: body || '',
+                baseRefName: base,
+                headRefName: input.head,
+                title: input.title,
+                body: input.body || '',
+                draft: input.draft ?? false,
             });
 
-            return response.createIssue.issue;
-        } catch {
-            return null;
+            return normalizePullRequest(response.createPullRequest.pullRequest);
+        } catch (error) {
+            return this.fail(error, null);
         }
     }
 
     /**
-     * Add an issue to a project
+     * Get a pull request by number
      */
-    async addToProject(projectId: string, contentId: string): Promise<string | null> {
+    async getPullRequest(repo: RepoInfo, prNumber: number): Promise<PullRequest | null> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
             const response: {
-                addProjectV2ItemById: { item: { id: string } };
-            } = await this.graphqlWithAuth(queries.ADD_TO_PROJECT_MUTATION, {
-                projectId,
-                contentId,
+                repository: { pullRequest: RawPullRequest | null } | null;
+            } = await this.graphqlWithAuth(queries.PULL_REQUEST_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                number: prNumber,
             });
 
-            return response.addProjectV2ItemById.item.id;
-        } catch {
-            return null;
+            const pr = response.repository?.pullRequest;
+            if (!pr) {
+                return this.fail(
+                    new NotFoundError(`Pull request not found: ${repo.owner}/${repo.name}#${prNumber}`),
+                    null
+                );
+            }
+
+            return normalizePullRequest(pr);
+        } catch (error) {
+            return this.fail(error, null);
         }
     }
 
     /**
-     * Get full issue details including body and comments
+     * Find pull requests opened from a branch, newest first.
+     * Pass `states` to limit the result, e.g. `['open']`.
      */
-    async getIssueDetails(repo: RepoInfo, issueNumber: number): Promise<IssueDetails | null> {
+    async findPullRequestsByBranch(
+        repo: RepoInfo,
+        branch: string,
+        states?: Array<PullRequest['state']>
+    ): Promise<PullRequest[]> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const response: {
+                repository: { pullRequests: { nodes: RawPullRequest[] } } | null;
+            } = await this.graphqlWithAuth(queries.PULL_REQUESTS_BY_BRANCH_QUERY, {
+                owner: repo.owner,
+                name: repo.name,
+                headRefName: branch,
+                states: states?.map(s => s.toUpperCase()) ?? null,
+            });
+
+            if (!response.repository) {
+                return this.fail(new NotFoundError(`Repository not found: ${repo.owner}/${repo.name}`), []);
+            }
+
+            return response.repository.pullRequests.nodes.map(normalizePullRequest);
+        } catch (error) {
+            return this.fail(error, []);
+        }
+    }
+
+    /**
+     * Get the review state and check results for a pull request
+     */
+    async getPullRequestReviewSummary(
+        repo: RepoInfo,
+        prNumber: number
+    ): Promise<PullRequestReviewSummary | null> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
             const response: {
                 repository: {
-                    issueOrPullRequest: {
-                        __typename: string;
-                        title: string;
-                        body: string;
-                        state: string;
-                        createdAt: string;
-                        author: { login: string } | null;
-                        labels: { nodes: Array<{ name: string; color: string }> };
-                        comments: {
-                            totalCount: number;
+                    pullRequest: {
+                        reviewDecision: RawPullRequest['reviewDecision'];
+                        latestOpinionatedReviews: {
+                            nodes: Array<{ state: string; author: { login: string } | null }>;
+                        };
+                        reviewRequests: {
                             nodes: Array<{
-                                author: { login: string } | null;
-                                body: string;
-                                createdAt: string;
+                                requestedReviewer: {
+                                    __typename: string;
+                                    login?: string;
+                                    combinedSlug?: string;
+                                } | null;
+                            }>;
+                        };
+                        commits: {
+                            nodes: Array<{
+                                commit: {
+                                    statusCheckRollup: {
+                                        state: string;
+                                        contexts: {
+                                            nodes: Array<{
+                                                __typename: string;
+                                                name?: string;
+                                                status?: string;
+                                                conclusion?: string | null;
+                                                detailsUrl?: string | null;
+                                                context?: string;
+                                                state?: string;
+                                                targetUrl?: string | null;
+                                            }>;
+                                        };
+                                    } | null;
+                                };
                             }>;
                         };
                     } | null;
-                };
-            } = await this.graphqlWithAuth(queries.ISSUE_DETAILS_QUERY, {
+                } | null;
+            } = await this.graphqlWithAuth(queries.PULL_REQUEST_REVIEW_SUMMARY_QUERY, {
                 owner: repo.owner,
                 name: repo.name,
-                number: issueNumber,
+                number: prNumber,
             });
 
-            const issue = response.repository.issueOrPullRequest;
-            if (!issue) return null;
+            const pr = response.repository?.pullRequest;
+            if (!pr) {
+                return this.fail(
+                    new NotFoundError(`Pull request not found: ${repo.owner}/${repo.name}#${prNumber}`),
+                    null
+                );
+            }
+
+            const reviewsBy = (state: string) => pr.latestOpinionatedReviews.nodes
+                .filter(r => r.state === state && r.author)
+                .map(r => r.author!.login);
+
+            const rollup = pr.commits.nodes[0]?.commit.statusCheckRollup ?? null;
+            const checks = (rollup?.contexts.nodes ?? []).map(ctx =>
+                ctx.__typename === 'CheckRun'
+                    ? {
+                        name: ctx.name!,
+                        state: checkRunState(ctx.status!, ctx.conclusion ?? null),
+                        url: ctx.detailsUrl ?? null,
+                    }
+                    : {
+                        name: ctx.context!,
+                        state: toCheckState(ctx.state!),
+                        url: ctx.targetUrl ?? null,
+                    }
+            );
 
             return {
-                title: issue.title,
-                body: issue.body,
-                state: issue.state,
-                type: issue.__typename === 'PullRequest' ? 'pull_request' : 'issue',
-                createdAt: issue.createdAt,
-                author: issue.author?.login || 'unknown',
-                labels: issue.labels.nodes,
-                comments: issue.comments.nodes.map(c => ({
-                    author: c.author?.login || 'unknown',
-                    body: c.body,
-                    createdAt: c.createdAt,
-                })),
-                totalComments: issue.comments.totalCount,
+                reviewDecision: pr.reviewDecision
+                    ? pr.reviewDecision.toLowerCase() as ReviewDecision
+                    : null,
+                approvedBy: reviewsBy('APPROVED'),
+                changesRequestedBy: reviewsBy('CHANGES_REQUESTED'),
+                pendingReviewers: pr.reviewRequests.nodes
+                    .map(r => r.requestedReviewer?.login ?? r.requestedReviewer?.combinedSlug)
+                    .filter((name): name is string => Boolean(name)),
+                checkState: rollup ? toCheckState(rollup.state) : null,
+                checks,
             };
-        } catch {
-            return null;
+        } catch (error) {
+            return this.fail(error, null);
         }
     }
 
     /**
-     * Add a comment to an issue or PR
+     * Mark a draft pull request as ready for review
      */
-    async addComment(repo: RepoInfo, issueNumber: number, body: string): Promise<boolean> {
+    async markPullRequestReadyForReview(repo: RepoInfo, prNumber: number): Promise<boolean> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
-            const issueResponse: {
-                repository: {
-                    issueOrPullRequest: { id: string } | null;
-                };
-            } = await this.graphqlWithAuth(queries.ISSUE_NODE_ID_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                number: issueNumber,
-            });
-
-            const subjectId = issueResponse.repository.issueOrPullRequest?.id;
-            if (!subjectId) {
-                return false;
+            const pullRequestId = await this.getPullRequestNodeId(repo, prNumber);
+            if (!pullRequestId) {
+                return this.fail(
+                    new NotFoundError(`Pull request not found: ${repo.owner}/${repo.name}#${prNumber}`),
+                    false
+                );
             }
 
-            await this.graphqlWithAuth(queries.ADD_COMMENT_MUTATION, { subjectId, body });
+            await this.graphqlWithAuth(queries.MARK_PR_READY_FOR_REVIEW_MUTATION, { pullRequestId });
             return true;
-        } catch {
-            return false;
+        } catch (error) {
+            return this.fail(error, false);
         }
     }
 
     /**
-     * Get repository collaborators (for @ mention suggestions)
+     * Get an issue's parent, its sub-issues in order, and sub-issue completion
      */
-    async getCollaborators(repo: RepoInfo): Promise<Collaborator[]> {
+    async getIssueHierarchy(repo: RepoInfo, issueNumber: number): Promise<IssueHierarchy | null> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
             const response: {
                 repository: {
-                    collaborators: {
-                        nodes: Array<{ login: string; name: string | null }>;
+                    issue: {
+                        parent: RawLinkedIssue | null;
+                        subIssuesSummary: SubIssueProgress;
+                        subIssues: { nodes: RawLinkedIssue[] };
                     } | null;
-                    assignableUsers: {
-                        nodes: Array<{ login: string; name: string | null }>;
-                    };
-                };
-            } = await this.graphqlWithAuth(queries.COLLABORATORS_QUERY, {
+                } | null;
+            } = await this.graphqlWithAuth(queries.ISSUE_HIERARCHY_QUERY, {
                 owner: repo.owner,
                 name: repo.name,
+                number: issueNumber,
             });
 
-            const users = response.repository.collaborators?.nodes
-                || response.repository.assignableUsers.nodes
-                || [];
+            const issue = response.repository?.issue;
+            if (!issue) {
+                return this.fail(
+                    new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`),
+                    null
+                );
+            }
 
-            return users.map(u => ({ login: u.login, name: u.name }));
-        } catch {
-            return [];
+            return {
+                parent: issue.parent ? normalizeLinkedIssue(issue.parent) : null,
+                subIssues: issue.subIssues.nodes.map(normalizeLinkedIssue),
+                progress: issue.subIssuesSummary,
+            };
+        } catch (error) {
+            return this.fail(error, null);
         }
     }
 
     /**
-     * Get recent issues (for # reference suggestions)
+     * Add an issue as a sub-issue of a parent issue.
+     * Fails if the issue already has a parent, unless `replaceParent` is set.
      */
-    async getRecentIssues(repo: RepoInfo, limit: number = 20): Promise<IssueReference[]> {
+    async addSubIssue(
+        repo: RepoInfo,
+        parentNumber: number,
+        subIssue: IssueRef,
+        options: { replaceParent?: boolean } = {}
+    ): Promise<boolean> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
-            const response: {
-                repository: {
-                    issues: {
-                        nodes: Array<{
-                            number: number;
-                            title: string;
-                            state: string;
-                        }>;
-                    };
-                };
-            } = await this.graphqlWithAuth(queries.RECENT_ISSUES_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                limit,
+            const [issueId, subIssueId] = await Promise.all([
+                this.resolveIssueRef(repo, parentNumber),
+                this.resolveIssueRef(repo, subIssue),
+            ]);
+
+            await this.graphqlWithAuth(queries.ADD_SUB_ISSUE_MUTATION, {
+                issueId,
+                subIssueId,
+                replaceParent: options.replaceParent ?? false,
             });
+            await this.invalidate('projectItems');
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
 
-            return response.repository.issues.nodes;
-        } catch {
-            return [];
+    /**
+     * Remove a sub-issue from a parent issue
+     */
+    async removeSubIssue(repo: RepoInfo, parentNumber: number, subIssue: IssueRef): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const [issueId, subIssueId] = await Promise.all([
+                this.resolveIssueRef(repo, parentNumber),
+                this.resolveIssueRef(repo, subIssue),
+            ]);
+
+            await this.graphqlWithAuth(queries.REMOVE_SUB_ISSUE_MUTATION, { issueId, subIssueId });
+            await this.invalidate('projectItems');
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
         }
     }
 
     /**
-     * Get the active label name for a user
+     * Move a sub-issue directly before or after another sub-issue of the same parent
      */
-    getActiveLabelName(): string {
-        return `@${this.username}:active`;
+    async reorderSubIssue(
+        repo: RepoInfo,
+        parentNumber: number,
+        subIssue: IssueRef,
+        position: { before: IssueRef } | { after: IssueRef }
+    ): Promise<boolean> {
+        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+
+        try {
+            const [issueId, subIssueId, siblingId] = await Promise.all([
+                this.resolveIssueRef(repo, parentNumber),
+                this.resolveIssueRef(repo, subIssue),
+                this.resolveIssueRef(repo, 'before' in position ? position.before : position.after),
+            ]);
+
+            await this.graphqlWithAuth(queries.REPRIORITIZE_SUB_ISSUE_MUTATION, {
+                issueId,
+                subIssueId,
+                beforeId: 'before' in position ? siblingId : null,
+                afterId: 'after' in position ? siblingId : null,
+            });
+            return true;
+        } catch (error) {
+            return this.fail(error, false);
+        }
+    }
+
+    /**
+     * Resolve an IssueRef to the issue's node ID, throwing NotFoundError if it doesn't exist
+     */
+    private async resolveIssueRef(repo: RepoInfo, ref: IssueRef): Promise<string> {
+        const target = typeof ref === 'number' ? { repo, number: ref } : ref;
+        const id = await this.getIssueNodeId(target.repo, target.number);
+        if (!id) {
+            throw new NotFoundError(`Issue not found: ${target.repo.owner}/${target.repo.name}#${target.number}`);
+        }
+        return id;
     }
 
     /**
-     * Ensure a label exists in the repository, create if it doesn't
+     * List a repository's milestones, soonest due first. Defaults to open milestones.
      */
-    async ensureLabel(repo: RepoInfo, labelName: string, color: string = '1f883d'): Promise<boolean> {
+    async listMilestones(
+        repo: RepoInfo,
+        state: 'open' | 'closed' | 'all' = 'open'
+    ): Promise<Milestone[]> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
-            const checkResponse: {
-                repository: {
-                    label: { id: string } | null;
-                };
-            } = await this.graphqlWithAuth(queries.LABEL_EXISTS_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                labelName,
-            });
+            const milestones: Milestone[] = [];
+            let cursor: string | null = null;
 
-            if (checkResponse.repository.label) {
-                return true;
-            }
+            do {
+                const response: {
+                    repository: {
+                        milestones: Connection<Omit<Milestone, 'state'> & { state: 'OPEN' | 'CLOSED' }>;
+                    } | null;
+                } = await this.graphqlWithAuth(queries.MILESTONES_QUERY, {
+                    owner: repo.owner,
+                    name: repo.name,
+                    states: state === 'all' ? null : [state.toUpperCase()],
+                    cursor,
+                });
 
-            // Create the label using REST API
-            const token = await this.getToken();
-            const response = await fetch(
-                `https://api.github.com/repos/${repo.owner}/${repo.name}/labels`,
-                {
-                    method: 'POST',
-                    headers: {
-                        'Authorization': `token ${token}`,
-                        'Content-Type': 'application/json',
-                        'Accept': 'application/vnd.github.v3+json',
-                    },
-                    body: JSON.stringify({
-                        name: labelName,
-                        color: color,
-                        description: `Active working indicator for ${this.username}`,
-                    }),
+                if (!response.repository) {
+                    return this.fail(new NotFoundError(`Repository not found: ${repo.owner}/${repo.name}`), []);
                 }
-            );
 
-            return response.status === 201 || response.status === 422;
-        } catch {
-            return false;
+                const { nodes, pageInfo } = response.repository.milestones;
+                milestones.push(...nodes.map(m => ({ ...m, state: m.state === 'OPEN' ? 'open' as const : 'closed' as const })));
+                cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+            } while (cursor);
+
+            return milestones;
+        } catch (error) {
+            return this.fail(error, []);
         }
     }
 
     /**
-     * Add a label to an issue
+     * Create a milestone (via the REST API, which GraphQL has no mutation for)
      */
-    async addLabelToIssue(repo: RepoInfo, issueNumber: number, labelName: string): Promise<boolean> {
-        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
-
+    async createMilestone(repo: RepoInfo, input: CreateMilestoneInput): Promise<Milestone | null> {
         try {
-            const response: {
-                repository: {
-                    issue: { id: string } | null;
-                    label: { id: string } | null;
-                };
-            } = await this.graphqlWithAuth(queries.ISSUE_AND_LABEL_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                number: issueNumber,
-                labelName,
+            const created = await this.restRequest<{
+                node_id: string;
+                number: number;
+                title: string;
+                description: string | null;
+                state: 'open' | 'closed';
+                due_on: string | null;
+                open_issues: number;
+                closed_issues: number;
+                html_url: string;
+            }>('POST', `/repos/${repo.owner}/${repo.name}/milestones`, {
+                title: input.title,
+                description: input.description,
+                due_on: input.dueOn ? new Date(input.dueOn).toISOString() : undefined,
             });
 
-            if (!response.repository.issue || !response.repository.label) {
-                return false;
-            }
+            const total = created.open_issues + created.closed_issues;
+            return {
+                id: created.node_id,
+                number: created.number,
+                title: created.title,
+                description: created.description,
+                state: created.state,
+                dueOn: created.due_on,
+                progressPercentage: total > 0 ? (created.closed_issues / total) * 100 : 0,
+                url: created.html_url,
+            };
+        } catch (error) {
+            return this.fail(error, null);
+        }
+    }
 
-            await this.graphqlWithAuth(queries.ADD_LABELS_MUTATION, {
-                issueId: response.repository.issue.id,
-                labelIds: [response.repository.label.id],
+    /**
+     * Close a milestone by number
+     */
+    async closeMilestone(repo: RepoInfo, milestoneNumber: number): Promise<boolean> {
+        try {
+            await this.restRequest('PATCH', `/repos/${repo.owner}/${repo.name}/milestones/${milestoneNumber}`, {
+                state: 'closed',
             });
-
             return true;
-        } catch {
-            return false;
+        } catch (error) {
+            return this.fail(error, false);
         }
     }
 
     /**
-     * Remove a label from an issue
+     * Assign an issue to a milestone by number, or remove it from its milestone with null
      */
-    async removeLabelFromIssue(repo: RepoInfo, issueNumber: number, labelName: string): Promise<boolean> {
+    async setIssueMilestone(
+        repo: RepoInfo,
+        issueNumber: number,
+        milestoneNumber: number | null
+    ): Promise<boolean> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
-            const response: {
-                repository: {
-                    issue: { id: string } | null;
-                    label: { id: string } | null;
-                };
-            } = await this.graphqlWithAuth(queries.ISSUE_AND_LABEL_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                number: issueNumber,
-                labelName,
-            });
-
-            if (!response.repository.issue || !response.repository.label) {
-                return false;
-            }
-
-            await this.graphqlWithAuth(queries.REMOVE_LABELS_MUTATION, {
-                issueId: response.repository.issue.id,
-                labelIds: [response.repository.label.id],
-            });
+            const [issueId, milestoneId] = await Promise.all([
+                this.resolveIssueRef(repo, issueNumber),
+                milestoneNumber === null ? null : this.getMilestoneId(repo, milestoneNumber),
+            ]);
 
+            await this.graphqlWithAuth(queries.SET_ISSUE_MILESTONE_MUTATION, { issueId, milestoneId });
+            await this.invalidate('projectItems');
             return true;
-        } catch {
-            return false;
+        } catch (error) {
+            return this.fail(error, false);
         }
     }
 
     /**
-     * Find all issues with a specific label
+     * Look up a milestone's node ID, throwing NotFoundError if it doesn't exist
      */
-    async findIssuesWithLabel(repo: RepoInfo, labelName: string): Promise<number[]> {
+    private async getMilestoneId(repo: RepoInfo, milestoneNumber: number): Promise<string> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
-        try {
-            const response: {
-                repository: {
-                    issues: {
-                        nodes: Array<{ number: number }>;
-                    };
-                };
-            } = await this.graphqlWithAuth(queries.ISSUES_WITH_LABEL_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                labels: [labelName],
-            });
+        const response: {
+            repository: { milestone: { id: string } | null } | null;
+        } = await this.graphqlWithAuth(queries.MILESTONE_ID_QUERY, {
+            owner: repo.owner,
+            name: repo.name,
+            number: milestoneNumber,
+        });
 
-            return response.repository.issues.nodes.map(i => i.number);
-        } catch {
-            return [];
+        const id = response.repository?.milestone?.id;
+        if (!id) {
+            throw new NotFoundError(`Milestone not found: ${repo.owner}/${repo.name} #${milestoneNumber}`);
         }
+        return id;
     }
 
     /**
-     * Get available issue types for a repository
+     * Create a custom project field. Single-select fields are created with their options.
+     * Returns the new field's ID.
      */
-    async getIssueTypes(repo: RepoInfo): Promise<Array<{ id: string; name: string }>> {
+    async createProjectField(projectId: string, field: FieldSchema): Promise<string | null> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
             const response: {
-                repository: {
-                    issueTypes: {
-                        nodes: Array<{ id: string; name: string }>;
-                    } | null;
-                };
-            } = await this.graphqlWithAuth(queries.ISSUE_TYPES_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
+                createProjectV2Field: { projectV2Field: { id: string } };
+            } = await this.graphqlWithAuth(queries.CREATE_PROJECT_FIELD_MUTATION, {
+                projectId,
+                dataType: FIELD_DATA_TYPES[field.type],
+                name: field.name,
+                singleSelectOptions: field.type === 'single_select'
+                    ? (field.options ?? []).map(o => typeof o === 'string'
+                        ? { name: o, color: 'GRAY', description: '' }
+                        : { name: o.name, color: o.color ?? 'GRAY', description: o.description ?? '' })
+                    : null,
             });
 
-            return response.repository.issueTypes?.nodes || [];
-        } catch {
-            return [];
+            await this.invalidate('projectFields', projectId);
+            return response.createProjectV2Field.projectV2Field.id;
+        } catch (error) {
+            return this.fail(error, null);
         }
     }
 
     /**
-     * Set the issue type on an issue
+     * Replace a single-select field's options, in order.
+     * GitHub recreates every option, so this clears the field's value on every item.
      */
-    async setIssueType(repo: RepoInfo, issueNumber: number, issueTypeId: string): Promise<boolean> {
+    async updateSingleSelectOptions(
+        projectId: string,
+        fieldId: string,
+        options: PlannedOption[]
+    ): Promise<boolean> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
 
         try {
-            const issueResponse: {
-                repository: {
-                    issue: { id: string } | null;
-                };
-            } = await this.graphqlWithAuth(queries.ISSUE_FOR_UPDATE_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                number: issueNumber,
-            });
-
-            if (!issueResponse.repository.issue) {
-                return false;
-            }
-
-            await this.graphqlWithAuth(queries.UPDATE_ISSUE_TYPE_MUTATION, {
-                issueId: issueResponse.repository.issue.id,
-                issueTypeId,
+            await this.graphqlWithAuth(queries.UPDATE_SINGLE_SELECT_OPTIONS_MUTATION, {
+                fieldId,
+                singleSelectOptions: options,
             });
 
+            await this.invalidate('projectFields', projectId);
+            await this.invalidate('projectItems', projectId);
             return true;
-        } catch {
-            return false;
+        } catch (error) {
+            return this.fail(error, false);
         }
     }
 
     /**
-     * Update an issue's body/description
+     * Read the labels, project fields and issue types that a schema is compared against.
+     * Throws if any of them can't be read, even outside strict mode: planning
+     * against an empty fallback would propose recreating (or pruning) everything.
      */
-    async updateIssueBody(repo: RepoInfo, issueNumber: number, body: string): Promise<boolean> {
-        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
-
+    async getSchemaState(repo: RepoInfo, projectId: string): Promise<SchemaState> {
         try {
-            const issueResponse: {
-                repository: {
-                    issue: { id: string } | null;
-                };
-            } = await this.graphqlWithAuth(queries.ISSUE_FOR_UPDATE_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                number: issueNumber,
-            });
-
-            if (!issueResponse.repository.issue) {
-                return false;
-            }
-
-            await this.graphqlWithAuth(queries.UPDATE_ISSUE_BODY_MUTATION, {
-                issueId: issueResponse.repository.issue.id,
-                body,
-            });
+            const [labels, fields, issueTypes, statusField] = await Promise.all([
+                this.fetchLabels(repo),
+                this.fetchProjectFields(projectId),
+                this.fetchIssueTypes(repo),
+                this.fetchStatusField(projectId),
+            ]);
 
-            return true;
-        } catch {
-            return false;
+            return {
+                labels,
+                fields: fields.map(f => ({ id: f.id, name: f.name, dataType: f.dataType, options: f.options })),
+                issueTypes,
+                statusFieldName: statusField?.name ?? null,
+            };
+        } catch (error) {
+            throw toGitHubAPIError(error);
         }
     }
 
     /**
-     * Update an issue's title and/or body
+     * Compare a schema with a repository and project and return the changes needed.
+     * Nothing is modified; review the plan, then pass it to applySchemaPlan().
      */
-    async updateIssue(
-        repo: RepoInfo,
-        issueNumber: number,
-        updates: { title?: string; body?: string }
-    ): Promise<boolean> {
-        if (!this.graphqlWithAuth) throw new Error('Not authenticated');
-
-        try {
-            const issueResponse: {
-                repository: {
-                    issue: { id: string } | null;
-                };
-            } = await this.graphqlWithAuth(queries.ISSUE_FOR_UPDATE_QUERY, {
-                owner: repo.owner,
-                name: repo.name,
-                number: issueNumber,
-            });
+    async planSchemaSync(repo: RepoInfo, projectId: string, schema: ProjectSchema): Promise<SchemaPlan> {
+        const state = await this.getSchemaState(repo, projectId);
+        return planSchema(schema, state, { repo, projectId });
+    }
 
-            if (!issueResponse.repository.issue) {
-                return false;
+    /**
+     * Apply a plan from planSchemaSync(), one change at a time.
+     * Failed changes don't stop the rest; check each result.
+     */
+    async applySchemaPlan(plan: SchemaPlan): Promise<SchemaChangeResult[]> {
+        const results: SchemaChangeResult[] = [];
+
+        for (const change of plan.changes) {
+            try {
+                const success = await this.applySchemaChange(plan, change);
+                results.push({ change, success });
+            } catch (error) {
+                results.push({
+                    change,
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
             }
+        }
 
-            await this.graphqlWithAuth(queries.UPDATE_ISSUE_MUTATION, {
-                issueId: issueResponse.repository.issue.id,
-                title: updates.title,
-                body: updates.body,
-            });
+        return results;
+    }
 
-            return true;
-        } catch {
-            return false;
+    /**
+     * Apply a single planned change
+     */
+    private async applySchemaChange(plan: SchemaPlan, change: SchemaChange): Promise<boolean> {
+        switch (change.kind) {
+            case 'createLabel':
+                return await this.createLabel(plan.repo, change.label) !== null;
+            case 'updateLabel':
+                return await this.updateLabel(plan.repo, change.name, change.label) !== null;
+            case 'deleteLabel':
+                return this.deleteLabel(plan.repo, change.name);
+            case 'createField':
+                return await this.createProjectField(plan.projectId, change.field) !== null;
+            case 'updateFieldOptions':
+                return this.updateSingleSelectOptions(plan.projectId, change.fieldId, change.options);
         }
     }
 
     /**
-     * Update assignees on an issue
+     * Apply many item updates at once, packed into aliased mutations.
+     * Never throws for individual failures: every operation gets a result,
+     * and `report.failed.map(r => r.operation)` can be passed back in to retry.
      */
-    async updateAssignees(
-        repo: RepoInfo,
-        issueNumber: number,
-        assigneeLogins: string[]
-    ): Promise<boolean> {
+    async bulkUpdate(operations: BulkOperation[], options: BulkOptions = {}): Promise<BulkReport> {
         if (!this.graphqlWithAuth) throw new Error('Not authenticated');
+        const graphqlWithAuth = this.graphqlWithAuth;
+        const batchSize = Math.max(1, options.batchSize ?? 25);
+
+        const results: BulkResult[] = operations.map(operation => ({ operation, success: false }));
+
+        // Resolve IDs up front; lookups started together go out as one batched query
+        const statusFields = new Map<string, Promise<StatusField | null>>();
+        const resolved = await Promise.all(operations.map(async (operation, index) => {
+            try {
+                return { index, mutation: await this.resolveBulkOperation(operation, statusFields) };
+            } catch (error) {
+                results[index].error = toGitHubAPIError(error).message;
+                return null;
+            }
+        }));
+        const pending = resolved.filter((r): r is { index: number; mutation: BulkMutation } => r !== null);
 
-        try {
-            // Get the issue node ID and current assignee IDs
-            const issueResponse: {
-                repository: {
-                    issue: {
-                        id: string;
-                        assignees: { nodes: Array<{ id: string; login: string }> };
-                    } | null;
-                };
-            } = await this.graphqlWithAuth(
-                `query($owner: String!, $name: String!, $number: Int!) {
-                    repository(owner: $owner, name: $name) {
-                        issue(number: $number) {
-                            id
-                            assignees(first: 20) { nodes { id login } }
-                        }
-                    }
-                }`,
-                { owner: repo.owner, name: repo.name, number: issueNumber }
-            );
+        const batches: Array<typeof pending> = [];
+        for (let i = 0; i < pending.length; i += batchSize) {
+            batches.push(pending.slice(i, i + batchSize));
+        }
 
-            if (!issueResponse.repository.issue) {
-                return false;
+        let completed = operations.length - pending.length;
+        await runWithConcurrency(batches.map(batch => async () => {
+            const { query, variables } = buildBulkMutation(batch.map(entry => entry.mutation));
+
+            let failed = new Map<string, string>();
+            try {
+                await graphqlWithAuth(query, variables);
+            } catch (error) {
+                const partial = getFailedAliases(error);
+                if (partial) {
+                    failed = partial;
+                } else {
+                    const message = toGitHubAPIError(error).message;
+                    batch.forEach((_, i) => failed.set(`m${i}`, message));
+                }
             }
 
-            const issueId = issueResponse.repository.issue.id;
+            batch.forEach((entry, i) => {
+                const error = failed.get(`m${i}`);
+                results[entry.index].success = error === undefined;
+                if (error !== undefined) results[entry.index].error = error;
+            });
 
-            // Get user IDs for the new assignees
-            const assigneeIds: string[] = [];
-            for (const login of assigneeLogins) {
-                const userResponse: { user: { id: string } | null } = await this.graphqlWithAuth(
-                    `query($login: String!) { user(login: $login) { id } }`,
-                    { login }
-                );
-                if (userResponse.user) {
-                    assigneeIds.push(userResponse.user.id);
-                }
+            completed += batch.length;
+            options.onProgress?.(completed, operations.length);
+        }), options.concurrency ?? 2);
+
+        // Drop cached items for every project touched; label changes can affect any project
+        if (operations.some(op => op.kind === 'addLabels' || op.kind === 'removeLabels')) {
+            await this.invalidate('projectItems');
+        } else {
+            const projectIds = new Set(operations.map(op => 'projectId' in op ? op.projectId : null));
+            for (const projectId of projectIds) {
+                if (projectId) await this.invalidate('projectItems', projectId);
             }
+        }
 
-            // Clear existing assignees first
-            const currentAssigneeIds = issueResponse.repository.issue.assignees.nodes.map(a => a.id);
-            if (currentAssigneeIds.length > 0) {
-                await this.graphqlWithAuth(
-                    `mutation($assignableId: ID!, $assigneeIds: [ID!]!) {
-                        removeAssigneesFromAssignable(input: { assignableId: $assignableId, assigneeIds: $assigneeIds }) {
-                            clientMutationId
-                        }
-                    }`,
-                    { assignableId: issueId, assigneeIds: currentAssigneeIds }
-                );
+        const failed = results.filter(r => !r.success);
+        return { results, succeeded: results.length - failed.length, failed };
+    }
+
+    /**
+     * Turn a bulk operation into a mutation, looking up the IDs it needs.
+     * Throws if something it refers to doesn't exist.
+     */
+    private async resolveBulkOperation(
+        operation: BulkOperation,
+        statusFields: Map<string, Promise<StatusField | null>>
+    ): Promise<BulkMutation> {
+        switch (operation.kind) {
+            case 'setField':
+                return operation.value === null
+                    ? clearFieldMutation(operation.projectId, operation.itemId, operation.fieldId)
+                    : updateFieldMutation(operation.projectId, operation.itemId, operation.fieldId, operation.value);
+
+            case 'setStatus': {
+                let statusField = statusFields.get(operation.projectId);
+                if (!statusField) {
+                    statusField = this.fetchStatusField(operation.projectId);
+                    statusFields.set(operation.projectId, statusField);
+                }
+                const field = await statusField;
+                if (!field) {
+                    throw new NotFoundError(`Status field not found in project ${operation.projectId}`);
+                }
+                const option = field.options.find(o => o.name.toLowerCase() === operation.status.toLowerCase());
+                if (!option) {
+                    throw new ValidationError(`Status "${operation.status}" not found in field ${field.name}`);
+                }
+                return updateFieldMutation(operation.projectId, operation.itemId, field.fieldId, {
+                    singleSelectOptionId: option.id,
+                });
             }
 
-            // Add new assignees
-            if (assigneeIds.length > 0) {
-                await this.graphqlWithAuth(
-                    `mutation($assignableId: ID!, $assigneeIds: [ID!]!) {
-                        addAssigneesToAssignable(input: { assignableId: $assignableId, assigneeIds: $assigneeIds }) {
-                            clientMutationId
-                        }
-                    }`,
-                    { assignableId: issueId, assigneeIds }
+            case 'addLabels':
+            case 'removeLabels': {
+                const { repo, issueNumber, labels } = operation;
+                const [issueId, ...labelIds] = await Promise.all([
+                    this.getNodeId(repo, issueNumber, 'issueOrPullRequest'),
+                    ...labels.map(label => this.getLabelId(repo, label)),
+                ]);
+                if (!issueId) {
+                    throw new NotFoundError(`Issue not found: ${repo.owner}/${repo.name}#${issueNumber}`);
+                }
+                const missing = labels.filter((_, i) => !labelIds[i]);
+                if (missing.length > 0) {
+                    throw new NotFoundError(`Label not found: ${missing.join(', ')}`);
+                }
+                return labelsMutation(
+                    operation.kind === 'addLabels' ? 'add' : 'remove',
+                    issueId,
+                    labelIds as string[]
                 );
             }
 
-            return true;
-        } catch {
-            return false;
+            case 'archive':
+                return archiveItemMutation(operation.projectId, operation.itemId);
         }
     }
 }
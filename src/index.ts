@@ -24,6 +24,78 @@
 
 export { GitHubAPI } from './github-api.js';
 
+// =============================================================================
+// Errors (thrown by GitHubAPI in strict mode)
+// =============================================================================
+
+export {
+    GitHubAPIError,
+    NotFoundError,
+    RateLimitedError,
+    ForbiddenError,
+    ValidationError,
+    NetworkError,
+    AuthenticationError,
+    toGitHubAPIError,
+} from './errors.js';
+
+// =============================================================================
+// Field Helpers
+// =============================================================================
+
+export {
+    getOptionIndex,
+    groupItemsByField,
+    getItemFieldValue,
+    getItemFieldValues,
+} from './fields.js';
+
+// =============================================================================
+// View Engine (renders saved project views)
+// =============================================================================
+
+export { renderView } from './view-engine.js';
+
+export type {
+    ViewGroup,
+    ViewSwimlane,
+    RenderedView,
+    RenderViewOptions,
+} from './view-engine.js';
+
+// =============================================================================
+// Filter Syntax (parses and evaluates GitHub Projects filters)
+// =============================================================================
+
+export { parseFilter, tokenizeFilter } from './filter-parser.js';
+export { applyFilter, matchesFilter } from './filter-evaluator.js';
+export type {
+    FilterAST,
+    FilterTerm,
+    FilterValue,
+    FilterOperand,
+    FilterMacro,
+} from './filter-parser.js';
+export type { FilterContext } from './filter-evaluator.js';
+
+// =============================================================================
+// Iteration Helpers
+// =============================================================================
+
+export {
+    getCurrentIteration,
+    getNextIteration,
+    getPreviousIteration,
+    findIterationByTitle,
+    resolveIteration,
+} from './iterations.js';
+
+// =============================================================================
+// Response Cache
+// =============================================================================
+
+export { MemoryCache, FileCache, DEFAULT_CACHE_TTL } from './cache.js';
+
 // =============================================================================
 // Branch Linker (stores links in GitHub issue bodies)
 // =============================================================================
@@ -65,6 +137,10 @@ export {
 // =============================================================================
 
 export {
+    DEFAULT_GITHUB_HOST,
+    normalizeHost,
+    getGraphQLBaseUrl,
+    getRestApiUrl,
     parseGitHubUrl,
     parseIssueUrl,
     buildIssueUrl,
@@ -111,6 +187,43 @@ export type {
     ResolvedSettings,
 } from './sync.js';
 
+// =============================================================================
+// Bulk Updates (many item changes in few requests)
+// =============================================================================
+
+export type {
+    BulkOperation,
+    BulkResult,
+    BulkReport,
+    BulkOptions,
+    ReorderReport,
+} from './bulk.js';
+
+// =============================================================================
+// Schema Sync (labels, fields and status options as code)
+// =============================================================================
+
+export {
+    planSchema,
+    formatSchemaChange,
+    formatSchemaPlan,
+    FIELD_DATA_TYPES,
+} from './schema-sync.js';
+export type {
+    OptionColor,
+    LabelSchema,
+    OptionSchema,
+    FieldSchemaType,
+    FieldSchema,
+    ProjectSchema,
+    ExistingOption,
+    SchemaState,
+    PlannedOption,
+    SchemaChange,
+    SchemaPlan,
+    SchemaChangeResult,
+} from './schema-sync.js';
+
 // =============================================================================
 // GraphQL Queries (for advanced usage)
 // =============================================================================
@@ -126,6 +239,12 @@ export type {
     TokenProvider,
     GitHubAPIOptions,
     AuthError,
+    NestedPaginationEvent,
+    RetryOptions,
+    RateLimitInfo,
+    CacheStore,
+    CacheResource,
+    CacheOptions,
 
     // Git
     GitOptions,
@@ -134,7 +253,11 @@ export type {
     // Normalized Types (simplified)
     Project,
     ProjectItem,
+    ProjectItemsOptions,
     StatusField,
+    FieldRef,
+    ProjectIteration,
+    FieldValueInput,
     IssueDetails,
     Collaborator,
     IssueReference,
@@ -142,6 +265,34 @@ export type {
     FieldInfo,
     AssigneeInfo,
 
+    // Labels
+    Label,
+    LabelInput,
+
+    // Comments
+    IssueComment,
+    ReactionContent,
+    ReactionSummary,
+
+    // Milestones
+    Milestone,
+    MilestoneInfo,
+    CreateMilestoneInput,
+
+    // Sub-issues
+    IssueRef,
+    LinkedIssue,
+    SubIssueProgress,
+    IssueHierarchy,
+
+    // Pull Requests
+    PullRequest,
+    PullRequestReviewSummary,
+    CreatePullRequestInput,
+    CheckSummary,
+    CheckState,
+    ReviewDecision,
+
     // Raw GraphQL Types
     ProjectV2,
     ProjectV2Field,
@@ -0,0 +1,93 @@
+/**
+ * Helpers for working with project iteration (sprint) fields.
+ */
+
+import type { ProjectIteration } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the given date as a UTC timestamp, ignoring the time of day
+ */
+function startOfDayUtc(date: Date): number {
+    return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Start and (exclusive) end of an iteration as UTC timestamps
+ */
+function iterationRange(iteration: ProjectIteration): { start: number; end: number } {
+    const start = Date.parse(`${iteration.startDate}T00:00:00Z`);
+    return { start, end: start + iteration.duration * DAY_MS };
+}
+
+/**
+ * Find the iteration that contains `date`, or null if it falls between iterations
+ */
+export function getCurrentIteration(
+    iterations: ProjectIteration[],
+    date: Date = new Date()
+): ProjectIteration | null {
+    const day = startOfDayUtc(date);
+    return iterations.find(it => {
+        const { start, end } = iterationRange(it);
+        return start <= day && day < end;
+    }) ?? null;
+}
+
+/**
+ * Find the first iteration that starts after `date`
+ */
+export function getNextIteration(
+    iterations: ProjectIteration[],
+    date: Date = new Date()
+): ProjectIteration | null {
+    const day = startOfDayUtc(date);
+    const upcoming = iterations
+        .filter(it => iterationRange(it).start > day)
+        .sort((a, b) => iterationRange(a).start - iterationRange(b).start);
+    return upcoming[0] ?? null;
+}
+
+/**
+ * Find the last iteration that ended on or before `date`
+ */
+export function getPreviousIteration(
+    iterations: ProjectIteration[],
+    date: Date = new Date()
+): ProjectIteration | null {
+    const day = startOfDayUtc(date);
+    const past = iterations
+        .filter(it => iterationRange(it).end <= day)
+        .sort((a, b) => iterationRange(b).start - iterationRange(a).start);
+    return past[0] ?? null;
+}
+
+/**
+ * Find an iteration by title, case-insensitively
+ */
+export function findIterationByTitle(
+    iterations: ProjectIteration[],
+    title: string
+): ProjectIteration | null {
+    const lower = title.toLowerCase();
+    return iterations.find(it => it.title.toLowerCase() === lower) ?? null;
+}
+
+/**
+ * Resolve a relative iteration reference ('current', 'next' or 'previous') by date
+ */
+export function resolveIteration(
+    iterations: ProjectIteration[],
+    which: 'current' | 'next' | 'previous',
+    date: Date = new Date()
+): ProjectIteration | null {
+    switch (which) {
+        case 'current':
+            return getCurrentIteration(iterations, date);
+        case 'next':
+            return getNextIteration(iterations, date);
+        case 'previous':
+            return getPreviousIteration(iterations, date);
+    }
+}
@@ -16,6 +16,33 @@ export const VIEWER_QUERY = `
     }
 `;
 
+/**
+ * Query to get the current GraphQL rate-limit budget
+ */
+export const RATE_LIMIT_QUERY = `
+    query {
+        rateLimit {
+            limit
+            cost
+            remaining
+            used
+            resetAt
+        }
+    }
+`;
+
+/**
+ * Selection for the budget a query used, added to the paginated queries that
+ * account for most of the cost. GitHubAPI reads it into RateLimitInfo.cost.
+ */
+const RATE_LIMIT_COST_SELECTION = `
+    rateLimit {
+        cost
+        remaining
+        resetAt
+    }
+`;
+
 /**
  * Query to get projects linked to a repository
  */
@@ -34,6 +61,79 @@ export const REPOSITORY_PROJECTS_QUERY = `
     }
 `;
 
+/**
+ * Selection set for a project summary, shared by the project discovery queries
+ */
+const PROJECT_SUMMARY_SELECTION = `
+    id
+    title
+    number
+    url
+    closed
+`;
+
+/**
+ * Query to get one page of an organization's projects.
+ * Pass the previous page's `endCursor` as `$cursor` to fetch the next page.
+ */
+export const ORGANIZATION_PROJECTS_QUERY = `
+    query($login: String!, $cursor: String) {
+        organization(login: $login) {
+            projectsV2(first: 100, after: $cursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                    ${PROJECT_SUMMARY_SELECTION}
+                }
+            }
+        }
+        ${RATE_LIMIT_COST_SELECTION}
+    }
+`;
+
+/**
+ * Query to get one page of a user's projects.
+ * Pass the previous page's `endCursor` as `$cursor` to fetch the next page.
+ */
+export const USER_PROJECTS_QUERY = `
+    query($login: String!, $cursor: String) {
+        user(login: $login) {
+            projectsV2(first: 100, after: $cursor) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                    ${PROJECT_SUMMARY_SELECTION}
+                }
+            }
+        }
+        ${RATE_LIMIT_COST_SELECTION}
+    }
+`;
+
+/**
+ * Query to get an organization's project by number
+ */
+export const ORGANIZATION_PROJECT_QUERY = `
+    query($login: String!, $number: Int!) {
+        organization(login: $login) {
+            projectV2(number: $number) {
+                ${PROJECT_SUMMARY_SELECTION}
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get a user's project by number
+ */
+export const USER_PROJECT_QUERY = `
+    query($login: String!, $number: Int!) {
+        user(login: $login) {
+            projectV2(number: $number) {
+                ${PROJECT_SUMMARY_SELECTION}
+            }
+        }
+    }
+`;
+
 /**
  * Query to get the repository ID
  */
@@ -46,66 +146,213 @@ export const REPOSITORY_ID_QUERY = `
 `;
 
 /**
- * Query to get project items with all field values
+ * Selection set shared by every query that reads project item field values
+ */
+const FIELD_VALUE_SELECTION = `
+    __typename
+    ... on ProjectV2ItemFieldSingleSelectValue {
+        name
+        field { ... on ProjectV2SingleSelectField { name } }
+    }
+    ... on ProjectV2ItemFieldTextValue {
+        text
+        field { ... on ProjectV2Field { name } }
+    }
+    ... on ProjectV2ItemFieldNumberValue {
+        number
+        field { ... on ProjectV2Field { name } }
+    }
+    ... on ProjectV2ItemFieldDateValue {
+        date
+        field { ... on ProjectV2Field { name } }
+    }
+    ... on ProjectV2ItemFieldIterationValue {
+        title
+        field { ... on ProjectV2IterationField { name } }
+    }
+`;
+
+/**
+ * Selection set for the milestone summary on items and issue details
+ */
+const MILESTONE_INFO_SELECTION = `
+    number
+    title
+    dueOn
+    progressPercentage
+`;
+
+/**
+ * Selection set for a parent or sub-issue
+ */
+const LINKED_ISSUE_SELECTION = `
+    id
+    number
+    title
+    state
+    url
+    repository { nameWithOwner }
+`;
+
+/**
+ * Selection set for a single project item, shared by the item queries
+ */
+const PROJECT_ITEM_SELECTION = `
+    id
+    isArchived
+    fieldValues(first: 20) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+            ${FIELD_VALUE_SELECTION}
+        }
+    }
+    content {
+        __typename
+        ... on Issue {
+            id
+            title
+            number
+            url
+            state
+            closedAt
+            issueType { name }
+            assignees(first: 5) {
+                pageInfo { hasNextPage endCursor }
+                nodes { login }
+            }
+            labels(first: 10) {
+                pageInfo { hasNextPage endCursor }
+                nodes { name color }
+            }
+            milestone { ${MILESTONE_INFO_SELECTION} }
+            repository { name owner { login } }
+        }
+        ... on PullRequest {
+            id
+            title
+            number
+            url
+            state
+            closedAt
+            merged
+            assignees(first: 5) {
+                pageInfo { hasNextPage endCursor }
+                nodes { login }
+            }
+            labels(first: 10) {
+                pageInfo { hasNextPage endCursor }
+                nodes { name color }
+            }
+            milestone { ${MILESTONE_INFO_SELECTION} }
+            repository { name owner { login } }
+        }
+        ... on DraftIssue {
+            id
+            title
+        }
+    }
+`;
+
+/**
+ * Query to get one page of project items with all field values, in project order.
+ * Pass the previous page's `endCursor` as `$cursor` to fetch the next page.
+ * Archived and active items come back together; tell them apart by `isArchived`.
  */
 export const PROJECT_ITEMS_QUERY = `
-    query($projectId: ID!) {
+    query($projectId: ID!, $cursor: String) {
         node(id: $projectId) {
             ... on ProjectV2 {
-                items(first: 100) {
+                items(first: 100, after: $cursor, orderBy: { field: POSITION, direction: ASC }) {
+                    pageInfo {
+                        hasNextPage
+                        endCursor
+                    }
                     nodes {
-                        id
-                        fieldValues(first: 20) {
-                            nodes {
-                                __typename
-                                ... on ProjectV2ItemFieldSingleSelectValue {
-                                    name
-                                    field { ... on ProjectV2SingleSelectField { name } }
-                                }
-                                ... on ProjectV2ItemFieldTextValue {
-                                    text
-                                    field { ... on ProjectV2Field { name } }
-                                }
-                                ... on ProjectV2ItemFieldNumberValue {
-                                    number
-                                    field { ... on ProjectV2Field { name } }
-                                }
-                                ... on ProjectV2ItemFieldDateValue {
-                                    date
-                                    field { ... on ProjectV2Field { name } }
-                                }
-                                ... on ProjectV2ItemFieldIterationValue {
-                                    title
-                                    field { ... on ProjectV2IterationField { name } }
-                                }
-                            }
-                        }
-                        content {
-                            __typename
-                            ... on Issue {
-                                title
-                                number
-                                url
-                                state
-                                issueType { name }
-                                assignees(first: 5) { nodes { login } }
-                                labels(first: 10) { nodes { name color } }
-                                repository { name }
-                            }
-                            ... on PullRequest {
-                                title
-                                number
-                                url
-                                state
-                                merged
-                                assignees(first: 5) { nodes { login } }
-                                labels(first: 10) { nodes { name color } }
-                                repository { name }
-                            }
-                            ... on DraftIssue {
-                                title
-                            }
-                        }
+                        ${PROJECT_ITEM_SELECTION}
+                    }
+                }
+            }
+        }
+        ${RATE_LIMIT_COST_SELECTION}
+    }
+`;
+
+/**
+ * Selection for the project items of an issue or pull request, each with the
+ * project it belongs to. Shared by the node ID and repository/number lookups.
+ * Archived items are left out, as they are from project item listings.
+ */
+const CONTENT_PROJECT_ITEMS_SELECTION = `
+    ... on Issue {
+        projectItems(first: 20, includeArchived: false) {
+            nodes {
+                project { id title }
+                ${PROJECT_ITEM_SELECTION}
+            }
+        }
+    }
+    ... on PullRequest {
+        projectItems(first: 20, includeArchived: false) {
+            nodes {
+                project { id title }
+                ${PROJECT_ITEM_SELECTION}
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get the project items of an issue or pull request by its node ID,
+ * each with the project it belongs to
+ */
+export const CONTENT_PROJECT_ITEMS_QUERY = `
+    query($contentId: ID!) {
+        node(id: $contentId) {
+            ${CONTENT_PROJECT_ITEMS_SELECTION}
+        }
+    }
+`;
+
+/**
+ * Query to get the project items of an issue or pull request by number,
+ * each with the project it belongs to and its current field values
+ */
+export const ISSUE_PROJECT_ITEMS_QUERY = `
+    query($owner: String!, $name: String!, $number: Int!) {
+        repository(owner: $owner, name: $name) {
+            issueOrPullRequest(number: $number) {
+                ${CONTENT_PROJECT_ITEMS_SELECTION}
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get a single project item by node ID, with the project it belongs to
+ */
+export const PROJECT_ITEM_QUERY = `
+    query($itemId: ID!) {
+        node(id: $itemId) {
+            ... on ProjectV2Item {
+                project { id title }
+                ${PROJECT_ITEM_SELECTION}
+            }
+        }
+    }
+`;
+
+/**
+ * Query to page through the remaining field values of a single project item.
+ * Used when PROJECT_ITEMS_QUERY reports a truncated fieldValues connection.
+ */
+export const PROJECT_ITEM_FIELD_VALUES_QUERY = `
+    query($id: ID!, $cursor: String) {
+        node(id: $id) {
+            ... on ProjectV2Item {
+                fieldValues(first: 100, after: $cursor) {
+                    pageInfo { hasNextPage endCursor }
+                    nodes {
+                        ${FIELD_VALUE_SELECTION}
                     }
                 }
             }
@@ -114,27 +361,80 @@ export const PROJECT_ITEMS_QUERY = `
 `;
 
 /**
- * Query to get project fields (including status options)
+ * Query to page through the remaining assignees of an issue or PR
+ */
+export const CONTENT_ASSIGNEES_QUERY = `
+    query($id: ID!, $cursor: String) {
+        node(id: $id) {
+            ... on Issue {
+                assignees(first: 100, after: $cursor) {
+                    pageInfo { hasNextPage endCursor }
+                    nodes { login }
+                }
+            }
+            ... on PullRequest {
+                assignees(first: 100, after: $cursor) {
+                    pageInfo { hasNextPage endCursor }
+                    nodes { login }
+                }
+            }
+        }
+    }
+`;
+
+/**
+ * Query to page through the remaining labels of an issue or PR
+ */
+export const CONTENT_LABELS_QUERY = `
+    query($id: ID!, $cursor: String) {
+        node(id: $id) {
+            ... on Issue {
+                labels(first: 100, after: $cursor) {
+                    pageInfo { hasNextPage endCursor }
+                    nodes { name color }
+                }
+            }
+            ... on PullRequest {
+                labels(first: 100, after: $cursor) {
+                    pageInfo { hasNextPage endCursor }
+                    nodes { name color }
+                }
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get one page of project fields (including status options and iterations).
+ * Pass the previous page's `endCursor` as `$cursor`.
  */
 export const PROJECT_FIELDS_QUERY = `
-    query($projectId: ID!) {
+    query($projectId: ID!, $cursor: String) {
         node(id: $projectId) {
             ... on ProjectV2 {
-                fields(first: 30) {
+                fields(first: 100, after: $cursor) {
+                    pageInfo { hasNextPage endCursor }
                     nodes {
                         __typename
                         ... on ProjectV2Field {
                             id
                             name
+                            dataType
                         }
                         ... on ProjectV2SingleSelectField {
                             id
                             name
-                            options { id name }
+                            dataType
+                            options { id name color description }
                         }
                         ... on ProjectV2IterationField {
                             id
                             name
+                            dataType
+                            configuration {
+                                iterations { id title startDate duration }
+                                completedIterations { id title startDate duration }
+                            }
                         }
                     }
                 }
@@ -144,7 +444,17 @@ export const PROJECT_FIELDS_QUERY = `
 `;
 
 /**
- * Query to get project views
+ * Selection set for a field configuration referenced by a view
+ */
+const VIEW_FIELD_SELECTION = `
+    __typename
+    ... on ProjectV2Field { id name }
+    ... on ProjectV2SingleSelectField { id name options { id name color } }
+    ... on ProjectV2IterationField { id name }
+`;
+
+/**
+ * Query to get project views with their layout, grouping, sorting and filter
  */
 export const PROJECT_VIEWS_QUERY = `
     query($projectId: ID!) {
@@ -152,8 +462,30 @@ export const PROJECT_VIEWS_QUERY = `
             ... on ProjectV2 {
                 views(first: 20) {
                     nodes {
+                        id
                         name
+                        number
+                        layout
                         filter
+                        groupByFields(first: 5) {
+                            nodes {
+                                ${VIEW_FIELD_SELECTION}
+                            }
+                        }
+                        verticalGroupByFields(first: 5) {
+                            nodes {
+                                ${VIEW_FIELD_SELECTION}
+                            }
+                        }
+                        sortByFields(first: 10) {
+                            nodes {
+                                __typename
+                                direction
+                                field {
+                                    ${VIEW_FIELD_SELECTION}
+                                }
+                            }
+                        }
                     }
                 }
             }
@@ -177,6 +509,21 @@ export const UPDATE_ITEM_FIELD_MUTATION = `
     }
 `;
 
+/**
+ * Mutation to clear a project item field value
+ */
+export const CLEAR_ITEM_FIELD_MUTATION = `
+    mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!) {
+        clearProjectV2ItemFieldValue(input: {
+            projectId: $projectId
+            itemId: $itemId
+            fieldId: $fieldId
+        }) {
+            projectV2Item { id }
+        }
+    }
+`;
+
 /**
  * Legacy mutation for updating single select field (status)
  */
@@ -225,6 +572,56 @@ export const ADD_TO_PROJECT_MUTATION = `
     }
 `;
 
+/**
+ * Mutation to create a draft issue directly on a project
+ */
+export const ADD_DRAFT_ISSUE_MUTATION = `
+    mutation($projectId: ID!, $title: String!, $body: String) {
+        addProjectV2DraftIssue(input: {
+            projectId: $projectId
+            title: $title
+            body: $body
+        }) {
+            projectItem {
+                project { id title }
+                ${PROJECT_ITEM_SELECTION}
+            }
+        }
+    }
+`;
+
+/**
+ * Mutation to edit a draft issue's title and/or body
+ */
+export const UPDATE_DRAFT_ISSUE_MUTATION = `
+    mutation($draftIssueId: ID!, $title: String, $body: String) {
+        updateProjectV2DraftIssue(input: {
+            draftIssueId: $draftIssueId
+            title: $title
+            body: $body
+        }) {
+            draftIssue { id }
+        }
+    }
+`;
+
+/**
+ * Mutation to convert a draft issue item into a real repository issue
+ */
+export const CONVERT_DRAFT_ISSUE_MUTATION = `
+    mutation($itemId: ID!, $repositoryId: ID!) {
+        convertProjectV2DraftIssueItemToIssue(input: {
+            itemId: $itemId
+            repositoryId: $repositoryId
+        }) {
+            item {
+                project { id title }
+                ${PROJECT_ITEM_SELECTION}
+            }
+        }
+    }
+`;
+
 /**
  * Query to get full issue details including comments
  */
@@ -240,9 +637,12 @@ export const ISSUE_DETAILS_QUERY = `
                     createdAt
                     author { login }
                     labels(first: 10) { nodes { name color } }
+                    milestone { ${MILESTONE_INFO_SELECTION} }
                     comments(first: 50) {
                         totalCount
                         nodes {
+                            id
+                            url
                             author { login }
                             body
                             createdAt
@@ -256,9 +656,12 @@ export const ISSUE_DETAILS_QUERY = `
                     createdAt
                     author { login }
                     labels(first: 10) { nodes { name color } }
+                    milestone { ${MILESTONE_INFO_SELECTION} }
                     comments(first: 50) {
                         totalCount
                         nodes {
+                            id
+                            url
                             author { login }
                             body
                             createdAt
@@ -382,17 +785,45 @@ export const REMOVE_LABELS_MUTATION = `
 `;
 
 /**
- * Query to find issues with a specific label
+ * Query to get one page of issues that have any of the given labels.
+ * Selects each issue's labels so callers can require all of them.
+ * Pass null `$states` for every state, and the previous page's `endCursor` as `$cursor`.
  */
 export const ISSUES_WITH_LABEL_QUERY = `
-    query($owner: String!, $name: String!, $labels: [String!]) {
+    query($owner: String!, $name: String!, $labels: [String!], $states: [IssueState!], $cursor: String) {
         repository(owner: $owner, name: $name) {
-            issues(first: 10, labels: $labels, states: [OPEN]) {
+            issues(first: 100, after: $cursor, labels: $labels, states: $states) {
+                pageInfo { hasNextPage endCursor }
                 nodes {
                     number
+                    title
+                    state
+                    labels(first: 100) { nodes { name } }
+                }
+            }
+        }
+        ${RATE_LIMIT_COST_SELECTION}
+    }
+`;
+
+/**
+ * Query to get one page of a repository's labels.
+ * Pass the previous page's `endCursor` as `$cursor` to fetch the next page.
+ */
+export const LABELS_QUERY = `
+    query($owner: String!, $name: String!, $cursor: String) {
+        repository(owner: $owner, name: $name) {
+            labels(first: 100, after: $cursor, orderBy: { field: NAME, direction: ASC }) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                    id
+                    name
+                    color
+                    description
                 }
             }
         }
+        ${RATE_LIMIT_COST_SELECTION}
     }
 `;
 
@@ -463,3 +894,447 @@ export const UPDATE_ISSUE_MUTATION = `
         }
     }
 `;
+
+/**
+ * Selection set for a pull request, shared by the pull request queries
+ */
+const PULL_REQUEST_SELECTION = `
+    id
+    number
+    title
+    url
+    state
+    isDraft
+    merged
+    author { login }
+    headRefName
+    baseRefName
+    mergeable
+    reviewDecision
+    commits(last: 1) {
+        nodes {
+            commit {
+                statusCheckRollup { state }
+            }
+        }
+    }
+    closingIssuesReferences(first: 20) {
+        nodes { number title state }
+    }
+`;
+
+/**
+ * Query to get the repository ID and default branch (for creating pull requests)
+ */
+export const REPOSITORY_DEFAULT_BRANCH_QUERY = `
+    query($owner: String!, $name: String!) {
+        repository(owner: $owner, name: $name) {
+            id
+            defaultBranchRef { name }
+        }
+    }
+`;
+
+/**
+ * Mutation to create a pull request
+ */
+export const CREATE_PULL_REQUEST_MUTATION = `
+    mutation($repositoryId: ID!, $baseRefName: String!, $headRefName: String!, $title: String!, $body: String, $draft: Boolean) {
+        createPullRequest(input: {
+            repositoryId: $repositoryId
+            baseRefName: $baseRefName
+            headRefName: $headRefName
+            title: $title
+            body: $body
+            draft: $draft
+        }) {
+            pullRequest {
+                ${PULL_REQUEST_SELECTION}
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get a pull request by number
+ */
+export const PULL_REQUEST_QUERY = `
+    query($owner: String!, $name: String!, $number: Int!) {
+        repository(owner: $owner, name: $name) {
+            pullRequest(number: $number) {
+                ${PULL_REQUEST_SELECTION}
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get pull requests by head branch, newest first.
+ * Pass null `$states` for every state.
+ */
+export const PULL_REQUESTS_BY_BRANCH_QUERY = `
+    query($owner: String!, $name: String!, $headRefName: String!, $states: [PullRequestState!]) {
+        repository(owner: $owner, name: $name) {
+            pullRequests(
+                headRefName: $headRefName
+                states: $states
+                first: 20
+                orderBy: { field: CREATED_AT, direction: DESC }
+            ) {
+                nodes {
+                    ${PULL_REQUEST_SELECTION}
+                }
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get a pull request's reviews, pending review requests and head commit checks
+ */
+export const PULL_REQUEST_REVIEW_SUMMARY_QUERY = `
+    query($owner: String!, $name: String!, $number: Int!) {
+        repository(owner: $owner, name: $name) {
+            pullRequest(number: $number) {
+                reviewDecision
+                latestOpinionatedReviews(first: 50) {
+                    nodes {
+                        state
+                        author { login }
+                    }
+                }
+                reviewRequests(first: 50) {
+                    nodes {
+                        requestedReviewer {
+                            __typename
+                            ... on User { login }
+                            ... on Bot { login }
+                            ... on Team { combinedSlug }
+                        }
+                    }
+                }
+                commits(last: 1) {
+                    nodes {
+                        commit {
+                            statusCheckRollup {
+                                state
+                                contexts(first: 100) {
+                                    nodes {
+                                        __typename
+                                        ... on CheckRun {
+                                            name
+                                            status
+                                            conclusion
+                                            detailsUrl
+                                        }
+                                        ... on StatusContext {
+                                            context
+                                            state
+                                            targetUrl
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+`;
+
+/**
+ * Mutation to mark a draft pull request as ready for review
+ */
+export const MARK_PR_READY_FOR_REVIEW_MUTATION = `
+    mutation($pullRequestId: ID!) {
+        markPullRequestReadyForReview(input: { pullRequestId: $pullRequestId }) {
+            pullRequest {
+                id
+                isDraft
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get the parent and sub-issue progress of up to 100 issues by node ID.
+ * Kept out of PROJECT_ITEM_SELECTION so item listings only pay for it on request,
+ * and still work on hosts without sub-issues.
+ */
+export const ISSUES_HIERARCHY_SUMMARY_QUERY = `
+    query($ids: [ID!]!) {
+        nodes(ids: $ids) {
+            ... on Issue {
+                id
+                parent { ${LINKED_ISSUE_SELECTION} }
+                subIssuesSummary { total completed percentCompleted }
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get an issue's parent, sub-issues and sub-issue completion
+ */
+export const ISSUE_HIERARCHY_QUERY = `
+    query($owner: String!, $name: String!, $number: Int!) {
+        repository(owner: $owner, name: $name) {
+            issue(number: $number) {
+                parent { ${LINKED_ISSUE_SELECTION} }
+                subIssuesSummary { total completed percentCompleted }
+                subIssues(first: 100) {
+                    nodes { ${LINKED_ISSUE_SELECTION} }
+                }
+            }
+        }
+    }
+`;
+
+/**
+ * Mutation to add a sub-issue to a parent issue
+ */
+export const ADD_SUB_ISSUE_MUTATION = `
+    mutation($issueId: ID!, $subIssueId: ID!, $replaceParent: Boolean) {
+        addSubIssue(input: { issueId: $issueId, subIssueId: $subIssueId, replaceParent: $replaceParent }) {
+            issue { id }
+        }
+    }
+`;
+
+/**
+ * Mutation to remove a sub-issue from a parent issue
+ */
+export const REMOVE_SUB_ISSUE_MUTATION = `
+    mutation($issueId: ID!, $subIssueId: ID!) {
+        removeSubIssue(input: { issueId: $issueId, subIssueId: $subIssueId }) {
+            issue { id }
+        }
+    }
+`;
+
+/**
+ * Mutation to move a sub-issue before or after another sub-issue of the same parent
+ */
+export const REPRIORITIZE_SUB_ISSUE_MUTATION = `
+    mutation($issueId: ID!, $subIssueId: ID!, $beforeId: ID, $afterId: ID) {
+        reprioritizeSubIssue(input: { issueId: $issueId, subIssueId: $subIssueId, beforeId: $beforeId, afterId: $afterId }) {
+            issue { id }
+        }
+    }
+`;
+
+/**
+ * Query to get one page of a repository's milestones, soonest due first.
+ * Pass null `$states` for every state.
+ */
+export const MILESTONES_QUERY = `
+    query($owner: String!, $name: String!, $states: [MilestoneState!], $cursor: String) {
+        repository(owner: $owner, name: $name) {
+            milestones(first: 100, after: $cursor, states: $states, orderBy: { field: DUE_DATE, direction: ASC }) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                    id
+                    number
+                    title
+                    description
+                    state
+                    dueOn
+                    progressPercentage
+                    url
+                }
+            }
+        }
+    }
+`;
+
+/**
+ * Query to get a milestone's node ID by number
+ */
+export const MILESTONE_ID_QUERY = `
+    query($owner: String!, $name: String!, $number: Int!) {
+        repository(owner: $owner, name: $name) {
+            milestone(number: $number) { id }
+        }
+    }
+`;
+
+/**
+ * Mutation to set or clear (with null `$milestoneId`) an issue's milestone
+ */
+export const SET_ISSUE_MILESTONE_MUTATION = `
+    mutation($issueId: ID!, $milestoneId: ID) {
+        updateIssue(input: { id: $issueId, milestoneId: $milestoneId }) {
+            issue { id }
+        }
+    }
+`;
+
+/**
+ * Selection set for a comment with its reactions
+ */
+const ISSUE_COMMENT_SELECTION = `
+    id
+    url
+    author { login }
+    body
+    createdAt
+    updatedAt
+    viewerCanUpdate
+    viewerCanDelete
+    reactionGroups {
+        content
+        viewerHasReacted
+        reactors { totalCount }
+    }
+`;
+
+/**
+ * Query to get one page of comments on an issue or pull request, oldest first.
+ * Pass the previous page's `endCursor` as `$cursor` to fetch the next page.
+ */
+export const ISSUE_COMMENTS_QUERY = `
+    query($owner: String!, $name: String!, $number: Int!, $cursor: String) {
+        repository(owner: $owner, name: $name) {
+            issueOrPullRequest(number: $number) {
+                ... on Issue {
+                    comments(first: 100, after: $cursor) {
+                        pageInfo { hasNextPage endCursor }
+                        nodes { ${ISSUE_COMMENT_SELECTION} }
+                    }
+                }
+                ... on PullRequest {
+                    comments(first: 100, after: $cursor) {
+                        pageInfo { hasNextPage endCursor }
+                        nodes { ${ISSUE_COMMENT_SELECTION} }
+                    }
+                }
+            }
+        }
+        ${RATE_LIMIT_COST_SELECTION}
+    }
+`;
+
+/**
+ * Mutation to edit a comment's body
+ */
+export const UPDATE_COMMENT_MUTATION = `
+    mutation($id: ID!, $body: String!) {
+        updateIssueComment(input: { id: $id, body: $body }) {
+            issueComment { ${ISSUE_COMMENT_SELECTION} }
+        }
+    }
+`;
+
+/**
+ * Mutation to delete a comment
+ */
+export const DELETE_COMMENT_MUTATION = `
+    mutation($id: ID!) {
+        deleteIssueComment(input: { id: $id }) {
+            clientMutationId
+        }
+    }
+`;
+
+/**
+ * Mutation to add a reaction to an issue, pull request or comment
+ */
+export const ADD_REACTION_MUTATION = `
+    mutation($subjectId: ID!, $content: ReactionContent!) {
+        addReaction(input: { subjectId: $subjectId, content: $content }) {
+            reaction { content }
+        }
+    }
+`;
+
+/**
+ * Mutation to remove the authenticated user's reaction from an issue, pull request or comment
+ */
+export const REMOVE_REACTION_MUTATION = `
+    mutation($subjectId: ID!, $content: ReactionContent!) {
+        removeReaction(input: { subjectId: $subjectId, content: $content }) {
+            reaction { content }
+        }
+    }
+`;
+
+/**
+ * Mutation to create a project field. Single-select fields take their options up front.
+ */
+export const CREATE_PROJECT_FIELD_MUTATION = `
+    mutation($projectId: ID!, $dataType: ProjectV2CustomFieldType!, $name: String!, $singleSelectOptions: [ProjectV2SingleSelectFieldOptionInput!]) {
+        createProjectV2Field(input: {
+            projectId: $projectId
+            dataType: $dataType
+            name: $name
+            singleSelectOptions: $singleSelectOptions
+        }) {
+            projectV2Field {
+                ... on ProjectV2Field { id }
+                ... on ProjectV2SingleSelectField { id }
+                ... on ProjectV2IterationField { id }
+            }
+        }
+    }
+`;
+
+/**
+ * Mutation to replace a single-select field's options.
+ * Every option is recreated, so the field's value is cleared on every item,
+ * even for options whose name is unchanged.
+ */
+export const UPDATE_SINGLE_SELECT_OPTIONS_MUTATION = `
+    mutation($fieldId: ID!, $singleSelectOptions: [ProjectV2SingleSelectFieldOptionInput!]) {
+        updateProjectV2Field(input: { fieldId: $fieldId, singleSelectOptions: $singleSelectOptions }) {
+            projectV2Field {
+                ... on ProjectV2SingleSelectField { id }
+            }
+        }
+    }
+`;
+
+/**
+ * Mutation to archive a project item
+ */
+export const ARCHIVE_ITEM_MUTATION = `
+    mutation($projectId: ID!, $itemId: ID!) {
+        archiveProjectV2Item(input: { projectId: $projectId, itemId: $itemId }) {
+            item { id }
+        }
+    }
+`;
+
+/**
+ * Mutation to restore an archived project item
+ */
+export const UNARCHIVE_ITEM_MUTATION = `
+    mutation($projectId: ID!, $itemId: ID!) {
+        unarchiveProjectV2Item(input: { projectId: $projectId, itemId: $itemId }) {
+            item { id }
+        }
+    }
+`;
+
+/**
+ * Mutation to remove an item from a project. The underlying issue or PR is kept;
+ * draft issues are deleted.
+ */
+export const DELETE_ITEM_MUTATION = `
+    mutation($projectId: ID!, $itemId: ID!) {
+        deleteProjectV2Item(input: { projectId: $projectId, itemId: $itemId }) {
+            deletedItemId
+        }
+    }
+`;
+
+/**
+ * Mutation to move a project item directly after another item, or to the top with null `$afterId`
+ */
+export const UPDATE_ITEM_POSITION_MUTATION = `
+    mutation($projectId: ID!, $itemId: ID!, $afterId: ID) {
+        updateProjectV2ItemPosition(input: { projectId: $projectId, itemId: $itemId, afterId: $afterId }) {
+            clientMutationId
+        }
+    }
+`;
@@ -0,0 +1,131 @@
+/**
+ * Rate-limit tracking and retry policy for GitHub API requests.
+ *
+ * GitHubAPI reads the `x-ratelimit-*` headers of every GraphQL and REST response to
+ * keep a running view of the remaining budget, and uses computeRetryDelay()
+ * to decide whether a failed request is worth retrying and how long to wait.
+ * Mutations are only retried after a transient failure when they are known to
+ * be idempotent, since a 502 can arrive after the mutation was applied.
+ */
+
+import type { RateLimitInfo, RetryOptions } from './types.js';
+import { NetworkError, RateLimitedError, toGitHubAPIError } from './errors.js';
+
+/**
+ * Default retry policy: three retries, starting at one second and capped at one minute
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60_000,
+};
+
+/** HTTP statuses that indicate a transient server-side failure */
+const TRANSIENT_STATUSES = new Set([502, 503, 504]);
+
+/** Mutations that set state rather than create it, so sending them twice is harmless */
+const IDEMPOTENT_MUTATIONS = new Set([
+    'addLabelsToLabelable',
+    'addProjectV2ItemById',
+    'addReaction',
+    'archiveProjectV2Item',
+    'clearProjectV2ItemFieldValue',
+    'removeLabelsFromLabelable',
+    'removeReaction',
+    'reprioritizeSubIssue',
+    'unarchiveProjectV2Item',
+    'updateIssue',
+    'updateIssueComment',
+    'updateProjectV2DraftIssue',
+    'updateProjectV2ItemFieldValue',
+    'updateProjectV2ItemPosition',
+]);
+
+/**
+ * Check whether a GraphQL document is safe to send again after a transient failure.
+ * Queries always are; mutation documents only when every mutation in them is idempotent.
+ */
+export function isIdempotentRequest(query: string): boolean {
+    if (!/^\s*mutation\b/.test(query)) return true;
+
+    // Mutation fields all take an `input` argument, optionally behind an alias
+    const fields = [...query.matchAll(/(\w+)\s*\(\s*input\s*:/g)].map(m => m[1]);
+    return fields.length > 0 && fields.every(field => IDEMPOTENT_MUTATIONS.has(field));
+}
+
+/**
+ * Read the query cost from a GraphQL response body that selected `rateLimit { cost }`.
+ * Returns null when the query didn't select it.
+ */
+export function parseRateLimitCost(body: unknown): number | null {
+    const cost = (body as { data?: { rateLimit?: { cost?: unknown } } } | null)?.data?.rateLimit?.cost;
+    return typeof cost === 'number' ? cost : null;
+}
+
+/**
+ * Parse GitHub's `x-ratelimit-*` response headers.
+ * Returns null if the response carried no rate-limit information.
+ * Headers don't carry the query cost; pass it in when the response body reported one.
+ */
+export function parseRateLimitHeaders(headers: Headers, cost: number | null = null): RateLimitInfo | null {
+    const limit = headers.get('x-ratelimit-limit');
+    const remaining = headers.get('x-ratelimit-remaining');
+    const reset = headers.get('x-ratelimit-reset');
+    if (limit === null || remaining === null || reset === null) return null;
+
+    const used = headers.get('x-ratelimit-used');
+    return {
+        limit: parseInt(limit, 10),
+        remaining: parseInt(remaining, 10),
+        used: used !== null ? parseInt(used, 10) : parseInt(limit, 10) - parseInt(remaining, 10),
+        resetAt: new Date(parseInt(reset, 10) * 1000),
+        cost,
+    };
+}
+
+/**
+ * Decide how long to wait before retrying a failed request.
+ * Returns null if the error is not retryable or the retry budget is spent.
+ *
+ * - 502/503/504 responses back off exponentially with jitter, for idempotent requests only
+ * - Rate-limit errors honour `Retry-After`, then the reset time, then backoff.
+ *   The request was rejected before running, so these are retried either way.
+ * - Waits longer than `maxDelayMs` are not attempted
+ */
+export function computeRetryDelay(
+    error: unknown,
+    attempt: number,
+    options: Required<RetryOptions>,
+    idempotent: boolean = true
+): number | null {
+    if (attempt >= options.maxRetries) return null;
+
+    const apiError = toGitHubAPIError(error);
+    const backoff = Math.min(
+        options.maxDelayMs,
+        options.baseDelayMs * 2 ** attempt + Math.random() * options.baseDelayMs
+    );
+
+    if (apiError instanceof RateLimitedError) {
+        let delay = backoff;
+        if (apiError.retryAfter !== null) {
+            delay = apiError.retryAfter * 1000;
+        } else if (apiError.resetAt) {
+            delay = Math.max(0, apiError.resetAt.getTime() - Date.now()) + options.baseDelayMs;
+        }
+        return delay <= options.maxDelayMs ? delay : null;
+    }
+
+    if (idempotent && apiError instanceof NetworkError && apiError.status !== undefined && TRANSIENT_STATUSES.has(apiError.status)) {
+        return backoff;
+    }
+
+    return null;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
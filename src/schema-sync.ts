@@ -0,0 +1,433 @@
+/**
+ * Schema Sync ("labels as code")
+ *
+ * Compares a declarative schema (labels, project fields and their options,
+ * status columns, issue types) against a repository and project, and
+ * produces a reviewable plan of changes. Plans are applied with
+ * GitHubAPI.applySchemaPlan().
+ *
+ * Planning is additive: labels missing from the schema are left alone unless
+ * `pruneLabels` is set. GitHub can only change a single-select field's
+ * options by replacing all of them, which clears that field on every item,
+ * so option changes are only planned with `replaceOptions` set; otherwise
+ * they are reported as warnings.
+ *
+ * @example
+ * ```typescript
+ * const plan = await api.planSchemaSync(repo, project.id, {
+ *   labels: [{ name: 'bug', color: 'd73a4a' }],
+ *   statusOptions: ['Todo', 'In Progress', 'In Review', 'Done'],
+ *   fields: [{ name: 'Estimate', type: 'number' }],
+ * });
+ * console.log(formatSchemaPlan(plan));
+ * const result = await api.applySchemaPlan(plan);
+ * ```
+ */
+
+import type { Label, RepoInfo } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Colors available for project single-select options
+ */
+export type OptionColor = 'GRAY' | 'BLUE' | 'GREEN' | 'YELLOW' | 'ORANGE' | 'RED' | 'PINK' | 'PURPLE';
+
+/**
+ * A label the repository should have
+ */
+export interface LabelSchema {
+    name: string;
+    /** Hex color, with or without the leading '#' */
+    color: string;
+    /** Only compared when set */
+    description?: string;
+}
+
+/**
+ * A single-select option the field should have. A plain string is an option with defaults.
+ */
+export type OptionSchema = string | {
+    name: string;
+    /** Defaults to GRAY for new options; only compared when set */
+    color?: OptionColor;
+    /** Only compared when set */
+    description?: string;
+};
+
+/**
+ * Custom field types that can be created through the API
+ */
+export type FieldSchemaType = 'text' | 'number' | 'date' | 'single_select' | 'iteration';
+
+/**
+ * A project field the project should have
+ */
+export interface FieldSchema {
+    name: string;
+    type: FieldSchemaType;
+    /** Options in display order, for single-select fields */
+    options?: OptionSchema[];
+}
+
+/**
+ * Desired labels, fields and issue types for a repository and its project
+ */
+export interface ProjectSchema {
+    labels?: LabelSchema[];
+    /** Delete repository labels that aren't in `labels`. Defaults to false */
+    pruneLabels?: boolean;
+    /** Options of the project's status field, in column order */
+    statusOptions?: OptionSchema[];
+    fields?: FieldSchema[];
+    /**
+     * Plan option changes on existing single-select fields (including status).
+     * Destructive: the field's value is cleared on every item. Defaults to false
+     */
+    replaceOptions?: boolean;
+    /** Issue types the repository should offer. Checked only; issue types are managed per organization */
+    issueTypes?: string[];
+}
+
+/**
+ * A single-select option as it exists on a project field
+ */
+export interface ExistingOption {
+    id: string;
+    name: string;
+    color: string;
+    description: string;
+}
+
+/**
+ * Current labels, fields and issue types of a repository and project
+ */
+export interface SchemaState {
+    labels: Label[];
+    fields: Array<{
+        id: string;
+        name: string;
+        dataType: string;
+        options?: ExistingOption[];
+    }>;
+    issueTypes: Array<{ id: string; name: string }>;
+    /** Name of the project's status field, if it has one */
+    statusFieldName: string | null;
+}
+
+/**
+ * Option to send when replacing a single-select field's options
+ */
+export interface PlannedOption {
+    name: string;
+    color: OptionColor;
+    description: string;
+}
+
+/**
+ * One change needed to bring a repository and project in line with a schema
+ */
+export type SchemaChange =
+    | { kind: 'createLabel'; label: LabelSchema }
+    | { kind: 'updateLabel'; name: string; label: LabelSchema; current: { color: string; description: string | null } }
+    | { kind: 'deleteLabel'; name: string }
+    | { kind: 'createField'; field: FieldSchema }
+    | {
+        kind: 'updateFieldOptions';
+        fieldId: string;
+        fieldName: string;
+        /** Full option list to send, in order. Replacing it clears the field on every item */
+        options: PlannedOption[];
+        /** Names of options that will be added */
+        added: string[];
+        /** Names of options whose color, description or position changes */
+        changed: string[];
+    };
+
+/**
+ * Result of comparing a schema with a repository and project
+ */
+export interface SchemaPlan {
+    repo: RepoInfo;
+    projectId: string;
+    changes: SchemaChange[];
+    /** Differences that can't be fixed automatically (type mismatches, missing issue types) */
+    warnings: string[];
+}
+
+/**
+ * Outcome of applying one change
+ */
+export interface SchemaChangeResult {
+    change: SchemaChange;
+    success: boolean;
+    error?: string;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Map from schema field types to GraphQL data types
+ */
+export const FIELD_DATA_TYPES: Record<FieldSchemaType, string> = {
+    text: 'TEXT',
+    number: 'NUMBER',
+    date: 'DATE',
+    single_select: 'SINGLE_SELECT',
+    iteration: 'ITERATION',
+};
+
+type OptionChange = Extract<SchemaChange, { kind: 'updateFieldOptions' }>;
+
+function normalizeColor(color: string): string {
+    return color.replace(/^#/, '').toLowerCase();
+}
+
+function toOption(option: OptionSchema): Exclude<OptionSchema, string> {
+    return typeof option === 'string' ? { name: option } : option;
+}
+
+/**
+ * Diff desired labels against the repository's labels
+ */
+function planLabels(schema: ProjectSchema, state: SchemaState): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const desired = schema.labels ?? [];
+    const existing = new Map(state.labels.map(l => [l.name.toLowerCase(), l]));
+
+    for (const label of desired) {
+        const current = existing.get(label.name.toLowerCase());
+        if (!current) {
+            changes.push({ kind: 'createLabel', label });
+            continue;
+        }
+
+        const colorDiffers = normalizeColor(current.color) !== normalizeColor(label.color);
+        const descriptionDiffers = label.description !== undefined &&
+            (current.description ?? '') !== label.description;
+        const caseDiffers = current.name !== label.name;
+        if (colorDiffers || descriptionDiffers || caseDiffers) {
+            changes.push({
+                kind: 'updateLabel',
+                name: current.name,
+                label,
+                current: { color: current.color, description: current.description },
+            });
+        }
+    }
+
+    if (schema.pruneLabels) {
+        const wanted = new Set(desired.map(l => l.name.toLowerCase()));
+        for (const label of state.labels) {
+            if (!wanted.has(label.name.toLowerCase())) {
+                changes.push({ kind: 'deleteLabel', name: label.name });
+            }
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Diff desired options against a single-select field's options.
+ * Schema options come first in schema order; options not in the schema are kept after them.
+ * Returns null when nothing changes.
+ */
+function planOptions(
+    field: { id: string; name: string; options?: ExistingOption[] },
+    desired: OptionSchema[]
+): OptionChange | null {
+    const existing = field.options ?? [];
+    const byName = new Map(existing.map(o => [o.name.toLowerCase(), o]));
+    const wanted = desired.map(toOption);
+    const wantedNames = new Set(wanted.map(o => o.name.toLowerCase()));
+
+    const added: string[] = [];
+    const changed: string[] = [];
+    const options: PlannedOption[] = [];
+
+    // Relative order of the schema's options that already exist, before and after
+    const currentOrder = existing.filter(o => wantedNames.has(o.name.toLowerCase()));
+    const desiredOrder = wanted
+        .map(o => byName.get(o.name.toLowerCase()))
+        .filter((o): o is ExistingOption => o !== undefined);
+
+    wanted.forEach(option => {
+        const current = byName.get(option.name.toLowerCase());
+        if (!current) {
+            added.push(option.name);
+            options.push({
+                name: option.name,
+                color: option.color ?? 'GRAY',
+                description: option.description ?? '',
+            });
+            return;
+        }
+
+        const moved = currentOrder.indexOf(current) !== desiredOrder.indexOf(current);
+        const recolored = option.color !== undefined && option.color !== current.color;
+        const redescribed = option.description !== undefined && option.description !== current.description;
+        if (moved || recolored || redescribed || option.name !== current.name) {
+            changed.push(option.name);
+        }
+        options.push({
+            name: option.name,
+            color: option.color ?? current.color as OptionColor,
+            description: option.description ?? current.description,
+        });
+    });
+
+    for (const current of existing) {
+        if (!wantedNames.has(current.name.toLowerCase())) {
+            options.push({
+                name: current.name,
+                color: current.color as OptionColor,
+                description: current.description,
+            });
+        }
+    }
+
+    if (added.length === 0 && changed.length === 0) return null;
+    return { kind: 'updateFieldOptions', fieldId: field.id, fieldName: field.name, options, added, changed };
+}
+
+/**
+ * Summarize the added and changed options of an option change
+ */
+function describeOptionChange(change: OptionChange): string {
+    return [
+        change.added.length > 0 ? `add ${change.added.join(', ')}` : null,
+        change.changed.length > 0 ? `update ${change.changed.join(', ')}` : null,
+    ].filter(Boolean).join('; ');
+}
+
+/**
+ * Diff desired fields (including status options) against the project's fields
+ */
+function planFields(schema: ProjectSchema, state: SchemaState, warnings: string[]): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const byName = new Map(state.fields.map(f => [f.name.toLowerCase(), f]));
+
+    const fields = [...(schema.fields ?? [])];
+    if (schema.statusOptions) {
+        if (state.statusFieldName) {
+            fields.push({ name: state.statusFieldName, type: 'single_select', options: schema.statusOptions });
+        } else {
+            warnings.push('Project has no status field; statusOptions were not checked');
+        }
+    }
+
+    for (const field of fields) {
+        const current = byName.get(field.name.toLowerCase());
+        if (!current) {
+            changes.push({ kind: 'createField', field });
+            continue;
+        }
+
+        const expectedType = FIELD_DATA_TYPES[field.type];
+        if (current.dataType !== expectedType) {
+            warnings.push(`Field "${current.name}" is ${current.dataType}, expected ${expectedType}`);
+            continue;
+        }
+
+        if (field.type === 'single_select' && field.options) {
+            const change = planOptions(current, field.options);
+            if (!change) continue;
+            if (schema.replaceOptions) {
+                changes.push(change);
+            } else {
+                warnings.push(
+                    `Field "${current.name}" options differ (${describeOptionChange(change)}); ` +
+                    'set replaceOptions to update them, which clears the field on every item'
+                );
+            }
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Compare a schema with the current state of a repository and project.
+ * Pure: fetch the state with GitHubAPI.getSchemaState(), or use GitHubAPI.planSchemaSync().
+ */
+export function planSchema(
+    schema: ProjectSchema,
+    state: SchemaState,
+    target: { repo: RepoInfo; projectId: string }
+): SchemaPlan {
+    const warnings: string[] = [];
+    const changes = [
+        ...planLabels(schema, state),
+        ...planFields(schema, state, warnings),
+    ];
+
+    const issueTypes = new Set(state.issueTypes.map(t => t.name.toLowerCase()));
+    for (const name of schema.issueTypes ?? []) {
+        if (!issueTypes.has(name.toLowerCase())) {
+            warnings.push(`Issue type "${name}" is not available; add it in the organization settings`);
+        }
+    }
+
+    return { repo: target.repo, projectId: target.projectId, changes, warnings };
+}
+
+// =============================================================================
+// Display
+// =============================================================================
+
+/**
+ * Describe a single change in one line
+ */
+export function formatSchemaChange(change: SchemaChange): string {
+    switch (change.kind) {
+        case 'createLabel':
+            return `+ label "${change.label.name}" (#${normalizeColor(change.label.color)})`;
+        case 'updateLabel': {
+            const parts: string[] = [];
+            if (change.name !== change.label.name) {
+                parts.push(`rename to "${change.label.name}"`);
+            }
+            if (normalizeColor(change.current.color) !== normalizeColor(change.label.color)) {
+                parts.push(`#${normalizeColor(change.current.color)} → #${normalizeColor(change.label.color)}`);
+            }
+            if (change.label.description !== undefined && (change.current.description ?? '') !== change.label.description) {
+                parts.push('description');
+            }
+            return `~ label "${change.name}" (${parts.join('; ')})`;
+        }
+        case 'deleteLabel':
+            return `- label "${change.name}"`;
+        case 'createField':
+            return `+ field "${change.field.name}" (${change.field.type})`;
+        case 'updateFieldOptions':
+            return `~ field "${change.fieldName}" options (${describeOptionChange(change)}) ` +
+                `[destructive: clears "${change.fieldName}" on every item]`;
+    }
+}
+
+/**
+ * Get a human-readable summary of a plan
+ */
+export function formatSchemaPlan(plan: SchemaPlan): string {
+    const lines: string[] = [];
+
+    if (plan.changes.length === 0) {
+        lines.push(plan.warnings.length === 0
+            ? `${plan.repo.fullName}: schema is up to date`
+            : `${plan.repo.fullName}: no changes planned`);
+    } else {
+        lines.push(`${plan.repo.fullName}: ${plan.changes.length} change(s)`);
+        lines.push(...plan.changes.map(c => `  ${formatSchemaChange(c)}`));
+    }
+
+    for (const warning of plan.warnings) {
+        lines.push(`  ! ${warning}`);
+    }
+
+    return lines.join('\n');
+}
@@ -24,8 +24,107 @@ export interface TokenProvider {
 export interface GitHubAPIOptions {
     /** Provider for authentication tokens */
     tokenProvider: TokenProvider;
+    /**
+     * GitHub host to talk to, e.g. 'github.example.com' for GitHub Enterprise Server.
+     * Defaults to 'github.com'.
+     */
+    host?: string;
     /** Callback for authentication errors (scope issues, SSO, etc.) */
     onAuthError?: (error: AuthError) => void;
+    /**
+     * Throw typed errors (NotFoundError, RateLimitedError, ...) instead of
+     * returning false/null/[] when an operation fails. Defaults to false.
+     */
+    strict?: boolean;
+    /** Retry policy for transient failures and rate limits, or false to disable retries */
+    retry?: RetryOptions | false;
+    /** Callback whenever the known rate-limit budget changes (after every request) */
+    onRateLimit?: (info: RateLimitInfo) => void;
+    /**
+     * Status field to use per project, keyed by project node ID.
+     * Projects not listed here use `defaultStatusField`.
+     */
+    statusFields?: Record<string, FieldRef>;
+    /** Name of the single-select field to treat as status. Defaults to 'Status' */
+    defaultStatusField?: string;
+    /** Optional response cache for project metadata and items */
+    cache?: CacheOptions;
+    /** Callback when a project item needed follow-up queries to load truncated nested data */
+    onNestedPagination?: (event: NestedPaginationEvent) => void;
+}
+
+/**
+ * Storage backend for GitHubAPI's response cache.
+ * Implement this to cache in a custom location (VSCode globalState, Redis, etc.)
+ */
+export interface CacheStore {
+    /** Get a cached value, or undefined if missing or expired */
+    get<T>(key: string): Promise<T | undefined>;
+    /** Store a value for `ttlMs` milliseconds */
+    set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+    /** Remove a single entry */
+    delete(key: string): Promise<void>;
+    /** Remove every entry whose key starts with `prefix` */
+    deleteByPrefix(prefix: string): Promise<void>;
+    /** Remove all entries */
+    clear(): Promise<void>;
+}
+
+/**
+ * Kinds of responses GitHubAPI can cache
+ */
+export type CacheResource =
+    | 'projects'
+    | 'projectFields'
+    | 'projectItems'
+    | 'issueTypes'
+    | 'collaborators';
+
+/**
+ * Response cache configuration
+ */
+export interface CacheOptions {
+    store: CacheStore;
+    /**
+     * Time-to-live per resource, in milliseconds. A TTL of 0 disables caching
+     * for that resource. Project items are not cached unless a TTL is set.
+     */
+    ttl?: Partial<Record<CacheResource, number>>;
+}
+
+/**
+ * Retry policy for GitHubAPI requests
+ */
+export interface RetryOptions {
+    /** Maximum number of retries after the first attempt. Defaults to 3 */
+    maxRetries?: number;
+    /** Base delay for exponential backoff, in milliseconds. Defaults to 1000 */
+    baseDelayMs?: number;
+    /** Longest single wait before giving up instead of retrying, in milliseconds. Defaults to 60000 */
+    maxDelayMs?: number;
+}
+
+/**
+ * Current GraphQL rate-limit budget
+ */
+export interface RateLimitInfo {
+    limit: number;
+    remaining: number;
+    used: number;
+    resetAt: Date;
+    /** Point cost of the query that reported this budget, when known */
+    cost: number | null;
+}
+
+/**
+ * Reported when a project item's nested connections (field values, assignees,
+ * labels) exceeded the page size of the items query and had to be completed
+ * with targeted per-item queries
+ */
+export interface NestedPaginationEvent {
+    projectId: string;
+    itemId: string;
+    connections: Array<'fieldValues' | 'assignees' | 'labels'>;
 }
 
 /**
@@ -47,6 +146,8 @@ export interface AuthError extends Error {
 export interface GitOptions {
     /** Working directory for git commands. Defaults to process.cwd() */
     cwd?: string;
+    /** Additional GitHub Enterprise hosts to recognize in remote URLs */
+    hosts?: string[];
 }
 
 // =============================================================================
@@ -60,6 +161,8 @@ export interface RepoInfo {
     owner: string;
     name: string;
     fullName: string;
+    /** Host the repository lives on (e.g. 'github.com'), when known */
+    host?: string;
 }
 
 // =============================================================================
@@ -88,26 +191,83 @@ export interface ProjectItem {
     status: string | null;
     statusIndex: number;
     state: 'open' | 'closed' | 'merged' | null;
+    /** When the issue or PR was closed, as an ISO timestamp */
+    closedAt: string | null;
+    /** Whether the item is archived in the project */
+    archived: boolean;
+    /** Zero-based position among the project's active items. Only set for items from an active listing */
+    position?: number;
     assignees: string[];
     labels: Array<{ name: string; color: string }>;
+    /** Repository name, without the owner */
     repository: string | null;
+    /** Login of the repository owner, for telling apart same-named repos and issue numbers */
+    repositoryOwner: string | null;
     url: string | null;
     projectId: string;
     projectTitle: string;
     fields: Record<string, string>;
+    milestone: MilestoneInfo | null;
+    /** Parent issue, for issues that are sub-issues. Only set for issues listed with `includeHierarchy` */
+    parent?: LinkedIssue | null;
+    /** Completion of this issue's sub-issues, if it has any. Only set for issues listed with `includeHierarchy` */
+    subIssueProgress?: SubIssueProgress | null;
 }
 
 /**
- * Status field information for a project
+ * Options for listing project items
+ */
+export interface ProjectItemsOptions {
+    /** List archived items instead of active ones. Defaults to false */
+    archived?: boolean;
+    /** Also load each issue's parent and sub-issue progress, with one extra query per page */
+    includeHierarchy?: boolean;
+}
+
+/**
+ * Identifies a project field by node ID or by name
+ */
+export type FieldRef = { id: string } | { name: string };
+
+/**
+ * Single-select field information for a project, with options in column order.
+ * Used for the status field and for grouping boards by any other single-select field.
  */
 export interface StatusField {
     fieldId: string;
+    /** Field name. Always set on fields returned by GitHubAPI */
+    name?: string;
     options: Array<{
         id: string;
         name: string;
     }>;
 }
 
+/**
+ * An iteration (sprint) of a project iteration field
+ */
+export interface ProjectIteration {
+    id: string;
+    title: string;
+    /** ISO date (YYYY-MM-DD) the iteration starts on */
+    startDate: string;
+    /** Length in days */
+    duration: number;
+    completed: boolean;
+}
+
+/**
+ * A value to write to a project field. Pass exactly one property.
+ */
+export interface FieldValueInput {
+    text?: string;
+    number?: number;
+    singleSelectOptionId?: string;
+    /** ISO date (YYYY-MM-DD) */
+    date?: string;
+    iterationId?: string;
+}
+
 /**
  * Full issue details including body and comments
  */
@@ -119,7 +279,10 @@ export interface IssueDetails {
     createdAt: string;
     author: string;
     labels: Array<{ name: string; color: string }>;
+    milestone: MilestoneInfo | null;
     comments: Array<{
+        id: string;
+        url: string;
         author: string;
         body: string;
         createdAt: string;
@@ -144,6 +307,204 @@ export interface IssueReference {
     state: string;
 }
 
+/**
+ * A repository label
+ */
+export interface Label {
+    id: string;
+    name: string;
+    /** Hex color without the leading '#' */
+    color: string;
+    description: string | null;
+}
+
+/**
+ * Fields to set when creating or updating a label.
+ * On update, `name` renames the label.
+ */
+export interface LabelInput {
+    name?: string;
+    /** Hex color, with or without the leading '#' */
+    color?: string;
+    description?: string;
+}
+
+/**
+ * Reaction emoji, as named by the GraphQL API
+ */
+export type ReactionContent =
+    | 'THUMBS_UP'
+    | 'THUMBS_DOWN'
+    | 'LAUGH'
+    | 'HOORAY'
+    | 'CONFUSED'
+    | 'HEART'
+    | 'ROCKET'
+    | 'EYES';
+
+/**
+ * Count of one reaction on an issue, PR or comment
+ */
+export interface ReactionSummary {
+    content: ReactionContent;
+    count: number;
+    /** Whether the authenticated user added this reaction */
+    viewerHasReacted: boolean;
+}
+
+/**
+ * A comment on an issue or pull request
+ */
+export interface IssueComment {
+    id: string;
+    url: string;
+    author: string;
+    body: string;
+    createdAt: string;
+    updatedAt: string;
+    /** Whether the authenticated user may edit or delete the comment */
+    viewerCanUpdate: boolean;
+    viewerCanDelete: boolean;
+    reactions: ReactionSummary[];
+}
+
+/**
+ * A repository milestone
+ */
+export interface Milestone {
+    id: string;
+    number: number;
+    title: string;
+    description: string | null;
+    state: 'open' | 'closed';
+    /** ISO timestamp the milestone is due, if set */
+    dueOn: string | null;
+    /** Share of the milestone's issues and PRs that are closed, 0-100 */
+    progressPercentage: number;
+    url: string;
+}
+
+/**
+ * Milestone summary attached to items and issue details
+ */
+export type MilestoneInfo = Pick<Milestone, 'number' | 'title' | 'dueOn' | 'progressPercentage'>;
+
+/**
+ * Input for creating a milestone
+ */
+export interface CreateMilestoneInput {
+    title: string;
+    description?: string;
+    /** Due date as an ISO date or timestamp */
+    dueOn?: string;
+}
+
+/**
+ * An issue in the given repository by number, or in another repository
+ */
+export type IssueRef = number | { repo: RepoInfo; number: number };
+
+/**
+ * An issue related to another one (a parent or sub-issue)
+ */
+export interface LinkedIssue {
+    id: string;
+    number: number;
+    title: string;
+    state: 'open' | 'closed';
+    url: string;
+    /** Repository as owner/name */
+    repository: string;
+}
+
+/**
+ * Completion counts for an issue's sub-issues
+ */
+export interface SubIssueProgress {
+    total: number;
+    completed: number;
+    percentCompleted: number;
+}
+
+/**
+ * An issue's place in the sub-issue hierarchy
+ */
+export interface IssueHierarchy {
+    parent: LinkedIssue | null;
+    /** Sub-issues in their saved order */
+    subIssues: LinkedIssue[];
+    progress: SubIssueProgress;
+}
+
+/**
+ * Combined state of a commit's checks and statuses
+ */
+export type CheckState = 'success' | 'failure' | 'pending' | 'error';
+
+/**
+ * Overall review decision on a pull request, as enforced by branch protection
+ */
+export type ReviewDecision = 'approved' | 'changes_requested' | 'review_required';
+
+/**
+ * A pull request, normalized for display and workflow decisions
+ */
+export interface PullRequest {
+    id: string;
+    number: number;
+    title: string;
+    url: string;
+    state: 'open' | 'closed' | 'merged';
+    isDraft: boolean;
+    author: string | null;
+    headRefName: string;
+    baseRefName: string;
+    /** Whether the PR merges cleanly. 'unknown' while GitHub is still computing it */
+    mergeable: 'mergeable' | 'conflicting' | 'unknown';
+    reviewDecision: ReviewDecision | null;
+    /** Combined check state of the head commit, or null if it has no checks */
+    checkState: CheckState | null;
+    /** Issues that will be closed when the PR merges */
+    closingIssues: IssueReference[];
+}
+
+/**
+ * A single check run or commit status on a pull request's head commit
+ */
+export interface CheckSummary {
+    name: string;
+    state: CheckState;
+    url: string | null;
+}
+
+/**
+ * Reviews and checks for a pull request
+ */
+export interface PullRequestReviewSummary {
+    reviewDecision: ReviewDecision | null;
+    /** Logins whose latest review approved */
+    approvedBy: string[];
+    /** Logins whose latest review requested changes */
+    changesRequestedBy: string[];
+    /** Users and teams (as org/slug) asked to review who haven't yet */
+    pendingReviewers: string[];
+    checkState: CheckState | null;
+    checks: CheckSummary[];
+}
+
+/**
+ * Input for creating a pull request
+ */
+export interface CreatePullRequestInput {
+    /** Branch with the changes */
+    head: string;
+    /** Branch to merge into. Defaults to the repository's default branch */
+    base?: string;
+    title: string;
+    body?: string;
+    draft?: boolean;
+}
+
 // =============================================================================
 // Raw GraphQL Response Types (for full API access)
 // =============================================================================
@@ -206,6 +567,11 @@ export interface ProjectV2View {
             __typename: string;
             id: string;
             name: string;
+            options?: Array<{
+                id: string;
+                name: string;
+                color?: string;
+            }>;
         }>;
     };
     sortByFields?: {
@@ -1,39 +1,101 @@
 /**
  * URL parsing utilities for GitHub repositories and issues.
+ *
+ * Every parser recognizes github.com and also accepts a list of additional
+ * GitHub Enterprise Server hosts. Every builder accepts the host to build for,
+ * defaulting to github.com.
  */
 
 import type { RepoInfo } from './types.js';
 
+/**
+ * The public GitHub host
+ */
+export const DEFAULT_GITHUB_HOST = 'github.com';
+
+/**
+ * Normalize a host or base URL to a bare hostname (with port, if any).
+ *
+ * @example
+ * normalizeHost('https://github.example.com/') // => 'github.example.com'
+ */
+export function normalizeHost(host: string): string {
+    return host
+        .trim()
+        .replace(/^[a-z]+:\/\//i, '')
+        .replace(/\/.*$/, '')
+        .toLowerCase();
+}
+
+/**
+ * Base URL for the GraphQL API on a host, in the form @octokit/graphql expects
+ * (the client appends `/graphql`).
+ */
+export function getGraphQLBaseUrl(host: string = DEFAULT_GITHUB_HOST): string {
+    const normalized = normalizeHost(host);
+    return normalized === DEFAULT_GITHUB_HOST
+        ? 'https://api.github.com'
+        : `https://${normalized}/api`;
+}
+
+/**
+ * Base URL for the REST API on a host.
+ */
+export function getRestApiUrl(host: string = DEFAULT_GITHUB_HOST): string {
+    const normalized = normalizeHost(host);
+    return normalized === DEFAULT_GITHUB_HOST
+        ? 'https://api.github.com'
+        : `https://${normalized}/api/v3`;
+}
+
+/**
+ * Build a regex alternation matching github.com plus any extra hosts
+ */
+function hostPattern(hosts: string[]): string {
+    const all = new Set([DEFAULT_GITHUB_HOST, ...hosts.map(normalizeHost)]);
+    return Array.from(all)
+        .map(h => h.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('|');
+}
+
 /**
  * Parse a GitHub URL into owner and repo name.
  * Supports both SSH and HTTPS formats.
  *
+ * @param hosts Additional GitHub Enterprise hosts to recognize besides github.com
+ *
  * @example
  * parseGitHubUrl('git@github.com:owner/repo.git')
- * // => { owner: 'owner', name: 'repo', fullName: 'owner/repo' }
+ * // => { owner: 'owner', name: 'repo', fullName: 'owner/repo', host: 'github.com' }
  *
  * @example
- * parseGitHubUrl('https://github.com/owner/repo')
- * // => { owner: 'owner', name: 'repo', fullName: 'owner/repo' }
+ * parseGitHubUrl('https://github.example.com/owner/repo', ['github.example.com'])
+ * // => { owner: 'owner', name: 'repo', fullName: 'owner/repo', host: 'github.example.com' }
  */
-export function parseGitHubUrl(url: string): RepoInfo | null {
+export function parseGitHubUrl(url: string, hosts: string[] = []): RepoInfo | null {
+    const pattern = hostPattern(hosts);
+
     // Handle SSH format: git@github.com:owner/repo.git
-    const sshMatch = url.match(/git@github\.com:([^/]+)\/(.+?)(?:\.git)?$/);
+    const sshMatch = url.match(new RegExp(`^git@(${pattern}):([^/]+)\\/(.+?)(?:\\.git)?$`, 'i'));
     if (sshMatch) {
         return {
-            owner: sshMatch[1],
-            name: sshMatch[2],
-            fullName: `${sshMatch[1]}/${sshMatch[2]}`,
+            owner: sshMatch[2],
+            name: sshMatch[3],
+            fullName: `${sshMatch[2]}/${sshMatch[3]}`,
+            host: sshMatch[1].toLowerCase(),
         };
     }
 
-    // Handle HTTPS format: https://github.com/owner/repo.git
-    const httpsMatch = url.match(/https:\/\/github\.com\/([^/]+)\/(.+?)(?:\.git)?$/);
+    // Handle HTTPS and ssh:// formats: https://github.com/owner/repo.git
+    const httpsMatch = url.match(
+        new RegExp(`(?:https|ssh):\\/\\/(?:[^@/]+@)?(${pattern})(?::\\d+)?\\/([^/]+)\\/(.+?)(?:\\.git)?\\/?$`, 'i')
+    );
     if (httpsMatch) {
         return {
-            owner: httpsMatch[1],
-            name: httpsMatch[2],
-            fullName: `${httpsMatch[1]}/${httpsMatch[2]}`,
+            owner: httpsMatch[2],
+            name: httpsMatch[3],
+            fullName: `${httpsMatch[2]}/${httpsMatch[3]}`,
+            host: httpsMatch[1].toLowerCase(),
         };
     }
 
@@ -43,22 +105,26 @@ export function parseGitHubUrl(url: string): RepoInfo | null {
 /**
  * Parse a GitHub issue/PR URL to extract repo and number.
  *
+ * @param hosts Additional GitHub Enterprise hosts to recognize besides github.com
+ *
  * @example
  * parseIssueUrl('https://github.com/owner/repo/issues/123')
- * // => { owner: 'owner', repo: 'repo', number: 123, type: 'issue' }
+ * // => { owner: 'owner', repo: 'repo', number: 123, type: 'issue', host: 'github.com' }
  */
 export function parseIssueUrl(
-    url: string
-): { owner: string; repo: string; number: number; type: 'issue' | 'pull' } | null {
+    url: string,
+    hosts: string[] = []
+): { owner: string; repo: string; number: number; type: 'issue' | 'pull'; host: string } | null {
     const match = url.match(
-        /https:\/\/github\.com\/([^/]+)\/([^/]+)\/(issues|pull)\/(\d+)/
+        new RegExp(`https:\\/\\/(${hostPattern(hosts)})\\/([^/]+)\\/([^/]+)\\/(issues|pull)\\/(\\d+)`, 'i')
     );
     if (match) {
         return {
-            owner: match[1],
-            repo: match[2],
-            number: parseInt(match[4], 10),
-            type: match[3] === 'pull' ? 'pull' : 'issue',
+            owner: match[2],
+            repo: match[3],
+            number: parseInt(match[5], 10),
+            type: match[4] === 'pull' ? 'pull' : 'issue',
+            host: match[1].toLowerCase(),
         };
     }
     return null;
@@ -67,34 +133,52 @@ export function parseIssueUrl(
 /**
  * Build a GitHub issue URL from components.
  */
-export function buildIssueUrl(owner: string, repo: string, number: number): string {
-    return `https://github.com/${owner}/${repo}/issues/${number}`;
+export function buildIssueUrl(
+    owner: string,
+    repo: string,
+    number: number,
+    host: string = DEFAULT_GITHUB_HOST
+): string {
+    return `https://${normalizeHost(host)}/${owner}/${repo}/issues/${number}`;
 }
 
 /**
  * Build a GitHub pull request URL from components.
  */
-export function buildPullRequestUrl(owner: string, repo: string, number: number): string {
-    return `https://github.com/${owner}/${repo}/pull/${number}`;
+export function buildPullRequestUrl(
+    owner: string,
+    repo: string,
+    number: number,
+    host: string = DEFAULT_GITHUB_HOST
+): string {
+    return `https://${normalizeHost(host)}/${owner}/${repo}/pull/${number}`;
 }
 
 /**
  * Build a GitHub repository URL from components.
  */
-export function buildRepoUrl(owner: string, repo: string): string {
-    return `https://github.com/${owner}/${repo}`;
+export function buildRepoUrl(owner: string, repo: string, host: string = DEFAULT_GITHUB_HOST): string {
+    return `https://${normalizeHost(host)}/${owner}/${repo}`;
 }
 
 /**
  * Build a GitHub project URL from components.
  */
-export function buildProjectUrl(owner: string, projectNumber: number): string {
-    return `https://github.com/users/${owner}/projects/${projectNumber}`;
+export function buildProjectUrl(
+    owner: string,
+    projectNumber: number,
+    host: string = DEFAULT_GITHUB_HOST
+): string {
+    return `https://${normalizeHost(host)}/users/${owner}/projects/${projectNumber}`;
 }
 
 /**
  * Build an organization project URL.
  */
-export function buildOrgProjectUrl(org: string, projectNumber: number): string {
-    return `https://github.com/orgs/${org}/projects/${projectNumber}`;
+export function buildOrgProjectUrl(
+    org: string,
+    projectNumber: number,
+    host: string = DEFAULT_GITHUB_HOST
+): string {
+    return `https://${normalizeHost(host)}/orgs/${org}/projects/${projectNumber}`;
 }
@@ -0,0 +1,276 @@
+/**
+ * View Engine
+ *
+ * Renders a saved GitHub Project view (ProjectV2View) into an ordered
+ * structure of swimlanes and groups, applying the view's filter, grouping
+ * and sorting locally so consumers show what the saved view shows on GitHub.
+ *
+ * Board layouts group items into columns by the view's column field
+ * (`verticalGroupByFields`), and optionally into swimlanes by `groupByFields`.
+ * Table and roadmap layouts group by `groupByFields` only.
+ */
+
+import type { ProjectItem, ProjectV2View } from './types.js';
+import { getItemFieldValue, getItemFieldValues } from './fields.js';
+import { applyFilter } from './filter-evaluator.js';
+import type { FilterContext } from './filter-evaluator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A group of items sharing one field value (a board column or table group)
+ */
+export interface ViewGroup {
+    /** The shared field value, or null for items with no value */
+    value: string | null;
+    /** Option color, for single-select groups */
+    color: string | null;
+    items: ProjectItem[];
+}
+
+/**
+ * A horizontal swimlane containing groups.
+ * Views without swimlane grouping render a single swimlane with a null value.
+ */
+export interface ViewSwimlane {
+    value: string | null;
+    color: string | null;
+    groups: ViewGroup[];
+}
+
+/**
+ * A view rendered against a set of items
+ */
+export interface RenderedView {
+    view: ProjectV2View;
+    /** Field items are grouped by (board columns or table groups), if any */
+    groupField: string | null;
+    /** Field that splits groups into swimlanes, if any */
+    swimlaneField: string | null;
+    swimlanes: ViewSwimlane[];
+    /** All items that passed the filter, in sorted order */
+    items: ProjectItem[];
+    /** Whether the view's filter was evaluated */
+    filterApplied: boolean;
+}
+
+/**
+ * Options for renderView
+ */
+export interface RenderViewOptions {
+    /**
+     * Apply a view's filter string to items.
+     * Defaults to the built-in evaluator; pass `false` to ignore the filter.
+     */
+    applyFilter?: ((items: ProjectItem[], filter: string) => ProjectItem[]) | false;
+    /** Macro values (`@me`, `@current`, `@today`) for the built-in evaluator */
+    filterContext?: FilterContext;
+    /** Column field for boards that don't set one. Defaults to 'Status' */
+    defaultColumnField?: string;
+    /**
+     * Option order for fields the view doesn't carry options for, keyed by field name.
+     * Typically the options from GitHubAPI.getProjectFields().
+     */
+    fieldOptions?: Record<string, Array<{ name: string; color?: string }>>;
+}
+
+// =============================================================================
+// Sorting
+// =============================================================================
+
+/**
+ * Compare two field values. Numbers compare numerically, option values by
+ * option order, and everything else (including ISO dates) as strings.
+ */
+function compareValues(
+    a: string,
+    b: string,
+    options: Array<{ name: string }> | undefined
+): number {
+    if (options) {
+        // Values that aren't options sort after every option
+        const ai = options.findIndex(o => o.name.toLowerCase() === a.toLowerCase());
+        const bi = options.findIndex(o => o.name.toLowerCase() === b.toLowerCase());
+        return (ai === -1 ? options.length : ai) - (bi === -1 ? options.length : bi);
+    }
+
+    const an = Number(a);
+    const bn = Number(b);
+    if (a.trim() !== '' && b.trim() !== '' && Number.isFinite(an) && Number.isFinite(bn)) {
+        return an - bn;
+    }
+
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Sort items by the view's sort fields. Empty values always sort last.
+ * The sort is stable, so items without a sort keep project order.
+ */
+function sortItems(
+    items: ProjectItem[],
+    view: ProjectV2View,
+    options: RenderViewOptions
+): ProjectItem[] {
+    const sorts = view.sortByFields?.nodes ?? [];
+    if (sorts.length === 0) return items;
+
+    return [...items].sort((a, b) => {
+        for (const sort of sorts) {
+            const fieldName = sort.field.name;
+            const av = getItemFieldValue(a, fieldName);
+            const bv = getItemFieldValue(b, fieldName);
+
+            if (av === bv) continue;
+            if (av === null) return 1;
+            if (bv === null) return -1;
+
+            const fieldOptions = getFieldOptions(view, fieldName, options);
+            const result = compareValues(av, bv, fieldOptions);
+            if (result !== 0) return sort.direction === 'DESC' ? -result : result;
+        }
+        return 0;
+    });
+}
+
+// =============================================================================
+// Grouping
+// =============================================================================
+
+/**
+ * Find option order for a field, from the view's own field configs or the caller's options
+ */
+function getFieldOptions(
+    view: ProjectV2View,
+    fieldName: string,
+    options: RenderViewOptions
+): Array<{ name: string; color?: string }> | undefined {
+    const fromView =
+        view.groupByFields?.nodes.find(f => f.name === fieldName)?.options ??
+        view.verticalGroupByFields?.nodes.find(f => f.name === fieldName)?.options;
+    return fromView ?? options.fieldOptions?.[fieldName];
+}
+
+/**
+ * Split items into groups by a field.
+ * Option-backed fields produce groups in option order (optionally including
+ * empty ones); other fields produce groups in value order. Items with no
+ * value go in a trailing null group. Items with several values of a
+ * multi-valued field (e.g. two labels) appear in the group for each value.
+ */
+function groupItems(
+    items: ProjectItem[],
+    fieldName: string,
+    fieldOptions: Array<{ name: string; color?: string }> | undefined,
+    includeEmpty: boolean
+): ViewGroup[] {
+    const groups = new Map<string, ViewGroup>();
+    const noValue: ViewGroup = { value: null, color: null, items: [] };
+
+    if (fieldOptions) {
+        for (const opt of fieldOptions) {
+            groups.set(opt.name.toLowerCase(), { value: opt.name, color: opt.color ?? null, items: [] });
+        }
+    }
+
+    for (const item of items) {
+        const values = getItemFieldValues(item, fieldName);
+        if (values.length === 0) {
+            noValue.items.push(item);
+            continue;
+        }
+        for (const value of values) {
+            const key = value.toLowerCase();
+            let group = groups.get(key);
+            if (!group) {
+                group = { value, color: null, items: [] };
+                groups.set(key, group);
+            }
+            group.items.push(item);
+        }
+    }
+
+    let result = Array.from(groups.values());
+    if (!fieldOptions) {
+        result.sort((a, b) => compareValues(a.value!, b.value!, undefined));
+    }
+    if (!includeEmpty) {
+        result = result.filter(g => g.items.length > 0);
+    }
+    if (noValue.items.length > 0 || (includeEmpty && fieldOptions)) {
+        result.push(noValue);
+    }
+    return result;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render a view against a set of project items.
+ *
+ * @example
+ * ```typescript
+ * const views = await api.getProjectViews(project.id);
+ * const items = await api.getProjectItems(project.id, project.title);
+ * const board = renderView(views[0], items);
+ * for (const column of board.swimlanes[0].groups) {
+ *   console.log(column.value ?? 'No Status', column.items.length);
+ * }
+ * ```
+ */
+export function renderView(
+    view: ProjectV2View,
+    items: ProjectItem[],
+    options: RenderViewOptions = {}
+): RenderedView {
+    const filterFn = options.applyFilter === false
+        ? null
+        : options.applyFilter ?? ((all: ProjectItem[], filter: string) => applyFilter(all, filter, options.filterContext));
+    const filterApplied = Boolean(view.filter && filterFn);
+    const filtered = view.filter && filterFn
+        ? filterFn(items, view.filter)
+        : items;
+    const sorted = sortItems(filtered, view, options);
+
+    const isBoard = view.layout === 'BOARD_LAYOUT';
+    const groupByField = view.groupByFields?.nodes[0];
+    const columnField = view.verticalGroupByFields?.nodes[0];
+
+    // Boards: columns come from the column field, swimlanes from group-by.
+    // Tables/roadmaps: groups come from group-by, no swimlanes.
+    let groupField: string | null;
+    let swimlaneField: string | null;
+    if (isBoard) {
+        groupField = columnField?.name ?? options.defaultColumnField ?? 'Status';
+        swimlaneField = groupByField?.name ?? null;
+    } else {
+        groupField = groupByField?.name ?? null;
+        swimlaneField = null;
+    }
+
+    const buildGroups = (laneItems: ProjectItem[]): ViewGroup[] =>
+        groupField
+            ? groupItems(laneItems, groupField, getFieldOptions(view, groupField, options), isBoard)
+            : [{ value: null, color: null, items: laneItems }];
+
+    const swimlanes: ViewSwimlane[] = swimlaneField
+        ? groupItems(sorted, swimlaneField, getFieldOptions(view, swimlaneField, options), false).map(lane => ({
+            value: lane.value,
+            color: lane.color,
+            groups: buildGroups(lane.items),
+        }))
+        : [{ value: null, color: null, groups: buildGroups(sorted) }];
+
+    return {
+        view,
+        groupField,
+        swimlaneField,
+        swimlanes,
+        items: sorted,
+        filterApplied,
+    };
+}